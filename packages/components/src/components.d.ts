@@ -6,7 +6,13 @@
  */
 import { HTMLStencilElement, JSXBase } from "@stencil/core/internal";
 import { UiMsg } from "./utils/types";
+import { ThingLoadStatus } from "./components/ui-thing/ui-thing";
+import { ThingSummary } from "./services/thing-directory";
+import { InteractionOperation } from "./services/interaction-log";
 export { UiMsg } from "./utils/types";
+export { ThingLoadStatus } from "./components/ui-thing/ui-thing";
+export { ThingSummary } from "./services/thing-directory";
+export { InteractionOperation } from "./services/interaction-log";
 export namespace Components {
     /**
      * A simple button component designed for WoT device actions.
@@ -24,6 +30,13 @@ export namespace Components {
      * await thing.invokeAction('execute');
      * });
      * ```
+     * @example Declarative action input and output (with connectAll or ui-thing)
+     * ```html
+     * <ui-slider id="fade-ms" value="500"></ui-slider>
+     * <ui-button td-action="fade" td-input-from="fade-ms" td-output="fade-result" label="Fade"></ui-button>
+     * <ui-button td-action="setColor" td-input='{"r": 255, "g": 0, "b": 0}' label="Red"></ui-button>
+     * <ui-text id="fade-result" mode="structured"></ui-text>
+     * ```
      */
     interface UiButton {
         /**
@@ -52,12 +65,13 @@ export namespace Components {
          */
         "label": string;
         /**
-          * Sets the action to execute when button is clicked. This is the primary method for connecting button to real devices .
+          * Sets the action to execute when button is clicked. This is the primary method for connecting button to real devices . The value the action resolves with is reported as `meta.result` of the `clickMsg` sent when it settles.
           * @param actionFn - The async function to execute on button click
           * @returns Promise resolving to true if successful, false if failed
           * @example Basic Usage ```javascript await button.setAction(async () => { await thing.invokeAction('execute'); }); ```
+          * @example With input and output ```javascript await button.setAction(async () => { const output = await thing.invokeAction('fade', { duration: 500 }); return output.value(); }); ```
          */
-        "setAction": (actionFn?: () => Promise<any>) => Promise<boolean>;
+        "setAction": (actionFn?: (input?: any) => Promise<any>) => Promise<boolean>;
         /**
           * (Advance) to manually set the operation status indicator. Useful when managing device communication externally and you want to show loading/success/error states.
           * @param status - The status to display
@@ -174,7 +188,7 @@ export namespace Components {
           * @param status - The status to display
           * @param errorMessage - (Optional) error message for error status
          */
-        "setStatus": (status: "idle" | "loading" | "success" | "error", errorMessage?: string) => Promise<void>;
+        "setStatus": (status: "idle" | "loading" | "success" | "error" | "pending", errorMessage?: string) => Promise<void>;
         /**
           * Sets the calendar value with optional device communication api and other options.  This is the primary method for connecting calendars to real devices. It supports optimistic updates, error handling, and automatic retries.
           * @param value - The date string value to set (ISO format)
@@ -285,7 +299,7 @@ export namespace Components {
           * @param status - The status to display
           * @param errorMessage - (Optional) error message for error status
          */
-        "setStatus": (status: "idle" | "loading" | "success" | "error", errorMessage?: string) => Promise<void>;
+        "setStatus": (status: "idle" | "loading" | "success" | "error" | "pending", errorMessage?: string) => Promise<void>;
         /**
           * Sets the checkbox value with optional device communication api and other options.  This is the primary method for connecting checkboxes to real devices. It supports optimistic updates, error handling, and automatic retries.
           * @param value - The boolean value to set (true = checked, false = unchecked)
@@ -369,7 +383,7 @@ export namespace Components {
           * @param status - The status to display
           * @param errorMessage - (Optional) error message for error status
          */
-        "setStatus": (status: "idle" | "loading" | "success" | "error", errorMessage?: string) => Promise<void>;
+        "setStatus": (status: "idle" | "loading" | "success" | "error" | "pending", errorMessage?: string) => Promise<void>;
         /**
           * Sets the color picker value with optional device communication api and other options.  This is the primary method for connecting color pickers to real devices. It supports optimistic updates, error handling, and automatic retries.
           * @param value - The color value to set in hex format (e.g., #ff0000)
@@ -769,7 +783,7 @@ export namespace Components {
           * @param status - The status to display
           * @param errorMessage - (Optional) error message for error status
          */
-        "setStatus": (status: "idle" | "loading" | "success" | "error", errorMessage?: string) => Promise<void>;
+        "setStatus": (status: "idle" | "loading" | "success" | "error" | "pending", errorMessage?: string) => Promise<void>;
         /**
           * Sets the number picker value with optional device communication api and other options.  This is the primary method for connecting number pickers to real devices. It supports optimistic updates, error handling, and automatic retries.
           * @param value - The numeric value to set
@@ -803,6 +817,10 @@ export namespace Components {
           * This triggers a visual pulse for read-only mode.  Useful to shows users when data has been refreshed from an external source. The pulse automatically fades after 1.5 seconds.
          */
         "triggerReadPulse": () => Promise<void>;
+        /**
+          * Unit symbol shown next to the value, e.g. `°C`; set from the property DataSchema when bound (optional)
+         */
+        "unit"?: string;
         /**
           * Current numeric value of the number picker
           * @default 0
@@ -984,7 +1002,7 @@ export namespace Components {
           * @param status - The status to display
           * @param errorMessage - (Optional) error message for error status
          */
-        "setStatus": (status: "idle" | "loading" | "success" | "error", errorMessage?: string) => Promise<void>;
+        "setStatus": (status: "idle" | "loading" | "success" | "error" | "pending", errorMessage?: string) => Promise<void>;
         /**
           * Set the slider value with optional device api and other options.  This is the primary method for connecting slider to real devices. It supports optimistic updates, error handling, and automatic retries. Values are automatically clamped to the min/max range.
           * @param value - The numeric value to set (will be clamped to min/max range)
@@ -1023,6 +1041,10 @@ export namespace Components {
           * This triggers a visual pulse for read-only mode.  Useful to shows users when data has been refreshed from an external source. The pulse automatically fades after 1.5 seconds.
          */
         "triggerReadPulse": () => Promise<void>;
+        /**
+          * Unit symbol shown next to the value, e.g. `°C`; set from the property DataSchema when bound (optional)
+         */
+        "unit"?: string;
         /**
           * Current numeric value of the slider
           * @default 0
@@ -1119,7 +1141,7 @@ export namespace Components {
           * @param status - The status to display
           * @param errorMessage - (Optional) error message for error status
          */
-        "setStatus": (status: "idle" | "loading" | "success" | "error", errorMessage?: string) => Promise<void>;
+        "setStatus": (status: "idle" | "loading" | "success" | "error" | "pending", errorMessage?: string) => Promise<void>;
         /**
           * Set the text value and handle optional operations and status management.  This is the primary method for connecting text to real devices. It supports optimistic updates, error handling, and automatic retries.
           * @param value - The string value to set
@@ -1159,6 +1181,10 @@ export namespace Components {
           * @default false
          */
         "showStatus": boolean;
+        /**
+          * Unit symbol shown after the value in field mode, e.g. `ppm`; set from the property DataSchema when bound (optional).
+         */
+        "unit"?: string;
         /**
           * Current text value of the component.
           * @default ''
@@ -1170,6 +1196,134 @@ export namespace Components {
          */
         "variant": 'minimal' | 'outlined' | 'filled';
     }
+    /**
+     * A declarative container that binds its descendants to a WoT Thing, without any bootstrap script.
+     * It consumes the Thing from `td-url` (or an embedded TD referenced by `td-ref`) and connects every
+     * descendant carrying `td-property`, `td-action` or `td-event` attributes. While the TD is fetched the
+     * `loading` slot is shown, and the `error` slot when it fails. All bindings are removed when the
+     * container leaves the document.
+     * @example Basic Usage
+     * ```html
+     * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine">
+     * <span slot="loading">Connecting to coffee machine...</span>
+     * <span slot="error">Coffee machine unavailable</span>
+     * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+     * <ui-button td-action="makeDrink" label="Make drink"></ui-button>
+     * <ui-event td-event="outOfResource" label="Alerts"></ui-event>
+     * </ui-thing>
+     * ```
+     * @example Simulated Thing
+     * ```html
+     * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine" simulate>
+     * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+     * </ui-thing>
+     * ```
+     * @example Embedded Thing Description
+     * ```html
+     * <script type="application/td+json" id="lamp-td">{ "title": "Lamp", ... }</script>
+     * <ui-thing td-ref="lamp-td">
+     * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+     * </ui-thing>
+     * ```
+     */
+    interface UiThing {
+        /**
+          * Enable dark mode theme styling of the default loading and error content
+          * @default false
+         */
+        "dark": boolean;
+        /**
+          * Gets the current loading state with optional metadata.
+          * @param includeMetadata - Whether to include the error information
+          * @returns Current status or detailed metadata object
+         */
+        "getStatus": (includeMetadata?: boolean) => Promise<ThingLoadStatus | { status: ThingLoadStatus; error?: string; }>;
+        /**
+          * Disconnect all descendants and connect them again, consuming the Thing anew if it is not cached.
+          * @returns Promise resolving to true when the Thing was loaded and descendants connected
+         */
+        "reconnect": () => Promise<boolean>;
+        /**
+          * Serve the Thing from an in-browser simulator generated from its TD instead of the device. Descendants bound to the same Thing follow it; giving only some of them `td-simulate` is rejected.
+          * @default false
+         */
+        "simulate": boolean;
+        /**
+          * Id of a `<script type="application/td+json">` element holding the Thing Description
+         */
+        "tdRef"?: string;
+        /**
+          * URL of the Thing Description to consume
+         */
+        "tdUrl"?: string;
+        /**
+          * Keep descendants in sync when they are added, removed or their td-* attributes change
+          * @default true
+         */
+        "watch": boolean;
+    }
+    /**
+     * Lists the Things registered in a W3C Thing Description Directory and lets the user pick one.
+     * The directory is queried once and the list is filtered locally as the user types. Picking a Thing
+     * consumes it and emits `thingSelect` with its summary, whose `url` can be handed to `<ui-thing td-url>`
+     * or `connectAll({ baseUrl })`.
+     * @example Basic Usage
+     * ```html
+     * <ui-thing-list directory="http://localhost:8081"></ui-thing-list>
+     * ```
+     * @example Pick a Thing for a dashboard
+     * ```html
+     * <ui-thing-list directory="http://localhost:8081" query="lamp"></ui-thing-list>
+     * <ui-thing id="dashboard">
+     * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+     * </ui-thing>
+     * <script>
+     * document.querySelector('ui-thing-list').addEventListener('thingSelect', event => {
+     * if (event.detail.ok) document.getElementById('dashboard').setAttribute('td-url', event.detail.newVal.url);
+     * });
+     * </script>
+     * ```
+     */
+    interface UiThingList {
+        /**
+          * Enable dark mode theme styling
+          * @default false
+         */
+        "dark": boolean;
+        /**
+          * Base URL of the Thing Description Directory, or its `/things` endpoint
+         */
+        "directory": string;
+        /**
+          * Get the Things matching the current query.
+          * @returns Summaries of the listed Things
+         */
+        "getThings": () => Promise<ThingSummary[]>;
+        /**
+          * Maximum number of Things loaded from the directory
+          * @default 500
+         */
+        "maxResults": number;
+        /**
+          * Text filter; every word must appear in the title, description, id, types or affordance names
+          * @default ''
+         */
+        "query": string;
+        /**
+          * Query the directory again.
+          * @returns The Things listed by the directory
+         */
+        "refresh": () => Promise<ThingSummary[]>;
+        /**
+          * Show the search box
+          * @default true
+         */
+        "searchable": boolean;
+        /**
+          * Id, or URL, of the selected Thing
+         */
+        "selected"?: string;
+    }
     /**
      * A versatile toggle switch component designed for WoT device control and monitoring.
      * It has various features, multiple visual styles, status and last updated timestamps.
@@ -1237,7 +1391,7 @@ export namespace Components {
           * @param status - The status to display
           * @param errorMessage - (Optional) error message for error status
          */
-        "setStatus": (status: "idle" | "loading" | "success" | "error", errorMessage?: string) => Promise<void>;
+        "setStatus": (status: "idle" | "loading" | "success" | "error" | "pending", errorMessage?: string) => Promise<void>;
         /**
           * Sets the toggle value with optional device communication api and other options.  This is the primary method for connecting toggles to real devices. It supports optimistic updates, error handling, and automatic retries.
           * @param value - The boolean value to set (true = on, false = off)
@@ -1277,6 +1431,59 @@ export namespace Components {
          */
         "variant": 'circle' | 'square' | 'apple' | 'cross' | 'neon';
     }
+    /**
+     * A debug panel showing the WoT interactions of the connection layer live.
+     * Every read, write, action invocation, observe notification and event is listed with its Thing,
+     * affordance, payload, latency and error. The list can be filtered by Thing and operation, and
+     * exported as JSON to attach to a support request.
+     * @example Basic Usage
+     * ```html
+     * <ui-wot-inspector></ui-wot-inspector>
+     * ```
+     * @example Only failed writes of one Thing
+     * ```html
+     * <ui-wot-inspector thing="http://plugfest.thingweb.io:8083/smart-coffee-machine" operation="writeproperty" errors-only="true"></ui-wot-inspector>
+     * ```
+     * @example JS Export
+     * ```javascript
+     * const inspector = document.querySelector('ui-wot-inspector');
+     * const json = await inspector.exportLog();
+     * ```
+     */
+    interface UiWotInspector {
+        /**
+          * Clear the interaction log.
+         */
+        "clear": () => Promise<void>;
+        /**
+          * Enable dark mode theme styling
+          * @default false
+         */
+        "dark": boolean;
+        /**
+          * Show only failed interactions
+          * @default false
+         */
+        "errorsOnly": boolean;
+        /**
+          * Get the interactions matching the current filters as JSON.
+          * @returns JSON dump of the interaction log
+         */
+        "exportLog": () => Promise<string>;
+        /**
+          * Maximum number of rows shown, newest first
+          * @default 200
+         */
+        "maxRows": number;
+        /**
+          * Show only interactions of this operation
+         */
+        "operation"?: InteractionOperation;
+        /**
+          * Show only interactions of this Thing (TD URL, id or title)
+         */
+        "thing"?: string;
+    }
 }
 export interface UiButtonCustomEvent<T> extends CustomEvent<T> {
     detail: T;
@@ -1318,6 +1525,14 @@ export interface UiTextCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLUiTextElement;
 }
+export interface UiThingCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLUiThingElement;
+}
+export interface UiThingListCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLUiThingListElement;
+}
 export interface UiToggleCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLUiToggleElement;
@@ -1342,6 +1557,13 @@ declare global {
      * await thing.invokeAction('execute');
      * });
      * ```
+     * @example Declarative action input and output (with connectAll or ui-thing)
+     * ```html
+     * <ui-slider id="fade-ms" value="500"></ui-slider>
+     * <ui-button td-action="fade" td-input-from="fade-ms" td-output="fade-result" label="Fade"></ui-button>
+     * <ui-button td-action="setColor" td-input='{"r": 255, "g": 0, "b": 0}' label="Red"></ui-button>
+     * <ui-text id="fade-result" mode="structured"></ui-text>
+     * ```
      */
     interface HTMLUiButtonElement extends Components.UiButton, HTMLStencilElement {
         addEventListener<K extends keyof HTMLUiButtonElementEventMap>(type: K, listener: (this: HTMLUiButtonElement, ev: UiButtonCustomEvent<HTMLUiButtonElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
@@ -1733,6 +1955,92 @@ declare global {
         prototype: HTMLUiTextElement;
         new (): HTMLUiTextElement;
     };
+    interface HTMLUiThingElementEventMap {
+        "thingStatus": UiMsg<ThingLoadStatus>;
+    }
+    /**
+     * A declarative container that binds its descendants to a WoT Thing, without any bootstrap script.
+     * It consumes the Thing from `td-url` (or an embedded TD referenced by `td-ref`) and connects every
+     * descendant carrying `td-property`, `td-action` or `td-event` attributes. While the TD is fetched the
+     * `loading` slot is shown, and the `error` slot when it fails. All bindings are removed when the
+     * container leaves the document.
+     * @example Basic Usage
+     * ```html
+     * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine">
+     * <span slot="loading">Connecting to coffee machine...</span>
+     * <span slot="error">Coffee machine unavailable</span>
+     * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+     * <ui-button td-action="makeDrink" label="Make drink"></ui-button>
+     * <ui-event td-event="outOfResource" label="Alerts"></ui-event>
+     * </ui-thing>
+     * ```
+     * @example Simulated Thing
+     * ```html
+     * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine" simulate>
+     * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+     * </ui-thing>
+     * ```
+     * @example Embedded Thing Description
+     * ```html
+     * <script type="application/td+json" id="lamp-td">{ "title": "Lamp", ... }</script>
+     * <ui-thing td-ref="lamp-td">
+     * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+     * </ui-thing>
+     * ```
+     */
+    interface HTMLUiThingElement extends Components.UiThing, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLUiThingElementEventMap>(type: K, listener: (this: HTMLUiThingElement, ev: UiThingCustomEvent<HTMLUiThingElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLUiThingElementEventMap>(type: K, listener: (this: HTMLUiThingElement, ev: UiThingCustomEvent<HTMLUiThingElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLUiThingElement: {
+        prototype: HTMLUiThingElement;
+        new (): HTMLUiThingElement;
+    };
+    interface HTMLUiThingListElementEventMap {
+        "thingSelect": UiMsg<ThingSummary>;
+    }
+    /**
+     * Lists the Things registered in a W3C Thing Description Directory and lets the user pick one.
+     * The directory is queried once and the list is filtered locally as the user types. Picking a Thing
+     * consumes it and emits `thingSelect` with its summary, whose `url` can be handed to `<ui-thing td-url>`
+     * or `connectAll({ baseUrl })`.
+     * @example Basic Usage
+     * ```html
+     * <ui-thing-list directory="http://localhost:8081"></ui-thing-list>
+     * ```
+     * @example Pick a Thing for a dashboard
+     * ```html
+     * <ui-thing-list directory="http://localhost:8081" query="lamp"></ui-thing-list>
+     * <ui-thing id="dashboard">
+     * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+     * </ui-thing>
+     * <script>
+     * document.querySelector('ui-thing-list').addEventListener('thingSelect', event => {
+     * if (event.detail.ok) document.getElementById('dashboard').setAttribute('td-url', event.detail.newVal.url);
+     * });
+     * </script>
+     * ```
+     */
+    interface HTMLUiThingListElement extends Components.UiThingList, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLUiThingListElementEventMap>(type: K, listener: (this: HTMLUiThingListElement, ev: UiThingListCustomEvent<HTMLUiThingListElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLUiThingListElementEventMap>(type: K, listener: (this: HTMLUiThingListElement, ev: UiThingListCustomEvent<HTMLUiThingListElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLUiThingListElement: {
+        prototype: HTMLUiThingListElement;
+        new (): HTMLUiThingListElement;
+    };
     interface HTMLUiToggleElementEventMap {
         "valueMsg": UiMsg<boolean>;
     }
@@ -1771,6 +2079,31 @@ declare global {
         prototype: HTMLUiToggleElement;
         new (): HTMLUiToggleElement;
     };
+    /**
+     * A debug panel showing the WoT interactions of the connection layer live.
+     * Every read, write, action invocation, observe notification and event is listed with its Thing,
+     * affordance, payload, latency and error. The list can be filtered by Thing and operation, and
+     * exported as JSON to attach to a support request.
+     * @example Basic Usage
+     * ```html
+     * <ui-wot-inspector></ui-wot-inspector>
+     * ```
+     * @example Only failed writes of one Thing
+     * ```html
+     * <ui-wot-inspector thing="http://plugfest.thingweb.io:8083/smart-coffee-machine" operation="writeproperty" errors-only="true"></ui-wot-inspector>
+     * ```
+     * @example JS Export
+     * ```javascript
+     * const inspector = document.querySelector('ui-wot-inspector');
+     * const json = await inspector.exportLog();
+     * ```
+     */
+    interface HTMLUiWotInspectorElement extends Components.UiWotInspector, HTMLStencilElement {
+    }
+    var HTMLUiWotInspectorElement: {
+        prototype: HTMLUiWotInspectorElement;
+        new (): HTMLUiWotInspectorElement;
+    };
     interface HTMLElementTagNameMap {
         "ui-button": HTMLUiButtonElement;
         "ui-calendar": HTMLUiCalendarElement;
@@ -1783,7 +2116,10 @@ declare global {
         "ui-object": HTMLUiObjectElement;
         "ui-slider": HTMLUiSliderElement;
         "ui-text": HTMLUiTextElement;
+        "ui-thing": HTMLUiThingElement;
+        "ui-thing-list": HTMLUiThingListElement;
         "ui-toggle": HTMLUiToggleElement;
+        "ui-wot-inspector": HTMLUiWotInspectorElement;
     }
 }
 declare namespace LocalJSX {
@@ -1803,6 +2139,13 @@ declare namespace LocalJSX {
      * await thing.invokeAction('execute');
      * });
      * ```
+     * @example Declarative action input and output (with connectAll or ui-thing)
+     * ```html
+     * <ui-slider id="fade-ms" value="500"></ui-slider>
+     * <ui-button td-action="fade" td-input-from="fade-ms" td-output="fade-result" label="Fade"></ui-button>
+     * <ui-button td-action="setColor" td-input='{"r": 255, "g": 0, "b": 0}' label="Red"></ui-button>
+     * <ui-text id="fade-result" mode="structured"></ui-text>
+     * ```
      */
     interface UiButton {
         /**
@@ -1831,7 +2174,7 @@ declare namespace LocalJSX {
          */
         "label"?: string;
         /**
-          * Emitted when button is clicked through user interaction. Contains the button label, timestamp, and source information.
+          * Emitted when button is clicked through user interaction. Contains the button label, timestamp, and source information. When an action is configured it is emitted again once the action settles, with `meta: { settled: true, result }` carrying the action output, or `ok: false` and the error when the action failed.
          */
         "onClickMsg"?: (event: UiButtonCustomEvent<UiMsg<string>>) => void;
         /**
@@ -2415,6 +2758,10 @@ declare namespace LocalJSX {
           * @default 1
          */
         "step"?: number;
+        /**
+          * Unit symbol shown next to the value, e.g. `°C`; set from the property DataSchema when bound (optional)
+         */
+        "unit"?: string;
         /**
           * Current numeric value of the number picker
           * @default 0
@@ -2584,6 +2931,10 @@ declare namespace LocalJSX {
           * @default 'circle'
          */
         "thumbShape"?: 'circle' | 'square' | 'arrow' | 'triangle' | 'diamond';
+        /**
+          * Unit symbol shown next to the value, e.g. `°C`; set from the property DataSchema when bound (optional)
+         */
+        "unit"?: string;
         /**
           * Current numeric value of the slider
           * @default 0
@@ -2694,6 +3045,10 @@ declare namespace LocalJSX {
           * @default false
          */
         "showStatus"?: boolean;
+        /**
+          * Unit symbol shown after the value in field mode, e.g. `ppm`; set from the property DataSchema when bound (optional).
+         */
+        "unit"?: string;
         /**
           * Current text value of the component.
           * @default ''
@@ -2705,6 +3060,121 @@ declare namespace LocalJSX {
          */
         "variant"?: 'minimal' | 'outlined' | 'filled';
     }
+    /**
+     * A declarative container that binds its descendants to a WoT Thing, without any bootstrap script.
+     * It consumes the Thing from `td-url` (or an embedded TD referenced by `td-ref`) and connects every
+     * descendant carrying `td-property`, `td-action` or `td-event` attributes. While the TD is fetched the
+     * `loading` slot is shown, and the `error` slot when it fails. All bindings are removed when the
+     * container leaves the document.
+     * @example Basic Usage
+     * ```html
+     * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine">
+     * <span slot="loading">Connecting to coffee machine...</span>
+     * <span slot="error">Coffee machine unavailable</span>
+     * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+     * <ui-button td-action="makeDrink" label="Make drink"></ui-button>
+     * <ui-event td-event="outOfResource" label="Alerts"></ui-event>
+     * </ui-thing>
+     * ```
+     * @example Simulated Thing
+     * ```html
+     * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine" simulate>
+     * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+     * </ui-thing>
+     * ```
+     * @example Embedded Thing Description
+     * ```html
+     * <script type="application/td+json" id="lamp-td">{ "title": "Lamp", ... }</script>
+     * <ui-thing td-ref="lamp-td">
+     * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+     * </ui-thing>
+     * ```
+     */
+    interface UiThing {
+        /**
+          * Enable dark mode theme styling of the default loading and error content
+          * @default false
+         */
+        "dark"?: boolean;
+        /**
+          * Emitted when the loading state of the Thing changes. Contains the new status, previous status, timestamp, and the error if loading failed.
+         */
+        "onThingStatus"?: (event: UiThingCustomEvent<UiMsg<ThingLoadStatus>>) => void;
+        /**
+          * Serve the Thing from an in-browser simulator generated from its TD instead of the device. Descendants bound to the same Thing follow it; giving only some of them `td-simulate` is rejected.
+          * @default false
+         */
+        "simulate"?: boolean;
+        /**
+          * Id of a `<script type="application/td+json">` element holding the Thing Description
+         */
+        "tdRef"?: string;
+        /**
+          * URL of the Thing Description to consume
+         */
+        "tdUrl"?: string;
+        /**
+          * Keep descendants in sync when they are added, removed or their td-* attributes change
+          * @default true
+         */
+        "watch"?: boolean;
+    }
+    /**
+     * Lists the Things registered in a W3C Thing Description Directory and lets the user pick one.
+     * The directory is queried once and the list is filtered locally as the user types. Picking a Thing
+     * consumes it and emits `thingSelect` with its summary, whose `url` can be handed to `<ui-thing td-url>`
+     * or `connectAll({ baseUrl })`.
+     * @example Basic Usage
+     * ```html
+     * <ui-thing-list directory="http://localhost:8081"></ui-thing-list>
+     * ```
+     * @example Pick a Thing for a dashboard
+     * ```html
+     * <ui-thing-list directory="http://localhost:8081" query="lamp"></ui-thing-list>
+     * <ui-thing id="dashboard">
+     * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+     * </ui-thing>
+     * <script>
+     * document.querySelector('ui-thing-list').addEventListener('thingSelect', event => {
+     * if (event.detail.ok) document.getElementById('dashboard').setAttribute('td-url', event.detail.newVal.url);
+     * });
+     * </script>
+     * ```
+     */
+    interface UiThingList {
+        /**
+          * Enable dark mode theme styling
+          * @default false
+         */
+        "dark"?: boolean;
+        /**
+          * Base URL of the Thing Description Directory, or its `/things` endpoint
+         */
+        "directory": string;
+        /**
+          * Maximum number of Things loaded from the directory
+          * @default 500
+         */
+        "maxResults"?: number;
+        /**
+          * Emitted when the user picked a Thing and it was consumed. Contains the Thing summary, or the error when consuming it failed.
+         */
+        "onThingSelect"?: (event: UiThingListCustomEvent<UiMsg<ThingSummary>>) => void;
+        /**
+          * Text filter; every word must appear in the title, description, id, types or affordance names
+          * @default ''
+         */
+        "query"?: string;
+        /**
+          * Show the search box
+          * @default true
+         */
+        "searchable"?: boolean;
+        /**
+          * Id, or URL, of the selected Thing
+         */
+        "selected"?: string;
+    }
     /**
      * A versatile toggle switch component designed for WoT device control and monitoring.
      * It has various features, multiple visual styles, status and last updated timestamps.
@@ -2786,6 +3256,50 @@ declare namespace LocalJSX {
          */
         "variant"?: 'circle' | 'square' | 'apple' | 'cross' | 'neon';
     }
+    /**
+     * A debug panel showing the WoT interactions of the connection layer live.
+     * Every read, write, action invocation, observe notification and event is listed with its Thing,
+     * affordance, payload, latency and error. The list can be filtered by Thing and operation, and
+     * exported as JSON to attach to a support request.
+     * @example Basic Usage
+     * ```html
+     * <ui-wot-inspector></ui-wot-inspector>
+     * ```
+     * @example Only failed writes of one Thing
+     * ```html
+     * <ui-wot-inspector thing="http://plugfest.thingweb.io:8083/smart-coffee-machine" operation="writeproperty" errors-only="true"></ui-wot-inspector>
+     * ```
+     * @example JS Export
+     * ```javascript
+     * const inspector = document.querySelector('ui-wot-inspector');
+     * const json = await inspector.exportLog();
+     * ```
+     */
+    interface UiWotInspector {
+        /**
+          * Enable dark mode theme styling
+          * @default false
+         */
+        "dark"?: boolean;
+        /**
+          * Show only failed interactions
+          * @default false
+         */
+        "errorsOnly"?: boolean;
+        /**
+          * Maximum number of rows shown, newest first
+          * @default 200
+         */
+        "maxRows"?: number;
+        /**
+          * Show only interactions of this operation
+         */
+        "operation"?: InteractionOperation;
+        /**
+          * Show only interactions of this Thing (TD URL, id or title)
+         */
+        "thing"?: string;
+    }
     interface IntrinsicElements {
         "ui-button": UiButton;
         "ui-calendar": UiCalendar;
@@ -2798,7 +3312,10 @@ declare namespace LocalJSX {
         "ui-object": UiObject;
         "ui-slider": UiSlider;
         "ui-text": UiText;
+        "ui-thing": UiThing;
+        "ui-thing-list": UiThingList;
         "ui-toggle": UiToggle;
+        "ui-wot-inspector": UiWotInspector;
     }
 }
 export { LocalJSX as JSX };
@@ -2821,6 +3338,13 @@ declare module "@stencil/core" {
              * await thing.invokeAction('execute');
              * });
              * ```
+             * @example Declarative action input and output (with connectAll or ui-thing)
+             * ```html
+             * <ui-slider id="fade-ms" value="500"></ui-slider>
+             * <ui-button td-action="fade" td-input-from="fade-ms" td-output="fade-result" label="Fade"></ui-button>
+             * <ui-button td-action="setColor" td-input='{"r": 255, "g": 0, "b": 0}' label="Red"></ui-button>
+             * <ui-text id="fade-result" mode="structured"></ui-text>
+             * ```
              */
             "ui-button": LocalJSX.UiButton & JSXBase.HTMLAttributes<HTMLUiButtonElement>;
             /**
@@ -3045,6 +3569,60 @@ declare module "@stencil/core" {
              * ```
              */
             "ui-text": LocalJSX.UiText & JSXBase.HTMLAttributes<HTMLUiTextElement>;
+            /**
+             * A declarative container that binds its descendants to a WoT Thing, without any bootstrap script.
+             * It consumes the Thing from `td-url` (or an embedded TD referenced by `td-ref`) and connects every
+             * descendant carrying `td-property`, `td-action` or `td-event` attributes. While the TD is fetched the
+             * `loading` slot is shown, and the `error` slot when it fails. All bindings are removed when the
+             * container leaves the document.
+             * @example Basic Usage
+             * ```html
+             * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine">
+             * <span slot="loading">Connecting to coffee machine...</span>
+             * <span slot="error">Coffee machine unavailable</span>
+             * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+             * <ui-button td-action="makeDrink" label="Make drink"></ui-button>
+             * <ui-event td-event="outOfResource" label="Alerts"></ui-event>
+             * </ui-thing>
+             * ```
+             * @example Simulated Thing
+             * ```html
+             * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine" simulate>
+             * <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+             * </ui-thing>
+             * ```
+             * @example Embedded Thing Description
+             * ```html
+             * <script type="application/td+json" id="lamp-td">{ "title": "Lamp", ... }</script>
+             * <ui-thing td-ref="lamp-td">
+             * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+             * </ui-thing>
+             * ```
+             */
+            "ui-thing": LocalJSX.UiThing & JSXBase.HTMLAttributes<HTMLUiThingElement>;
+            /**
+             * Lists the Things registered in a W3C Thing Description Directory and lets the user pick one.
+             * The directory is queried once and the list is filtered locally as the user types. Picking a Thing
+             * consumes it and emits `thingSelect` with its summary, whose `url` can be handed to `<ui-thing td-url>`
+             * or `connectAll({ baseUrl })`.
+             * @example Basic Usage
+             * ```html
+             * <ui-thing-list directory="http://localhost:8081"></ui-thing-list>
+             * ```
+             * @example Pick a Thing for a dashboard
+             * ```html
+             * <ui-thing-list directory="http://localhost:8081" query="lamp"></ui-thing-list>
+             * <ui-thing id="dashboard">
+             * <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+             * </ui-thing>
+             * <script>
+             * document.querySelector('ui-thing-list').addEventListener('thingSelect', event => {
+             * if (event.detail.ok) document.getElementById('dashboard').setAttribute('td-url', event.detail.newVal.url);
+             * });
+             * </script>
+             * ```
+             */
+            "ui-thing-list": LocalJSX.UiThingList & JSXBase.HTMLAttributes<HTMLUiThingListElement>;
             /**
              * A versatile toggle switch component designed for WoT device control and monitoring.
              * It has various features, multiple visual styles, status and last updated timestamps.
@@ -3067,6 +3645,26 @@ declare module "@stencil/core" {
              * ```
              */
             "ui-toggle": LocalJSX.UiToggle & JSXBase.HTMLAttributes<HTMLUiToggleElement>;
+            /**
+             * A debug panel showing the WoT interactions of the connection layer live.
+             * Every read, write, action invocation, observe notification and event is listed with its Thing,
+             * affordance, payload, latency and error. The list can be filtered by Thing and operation, and
+             * exported as JSON to attach to a support request.
+             * @example Basic Usage
+             * ```html
+             * <ui-wot-inspector></ui-wot-inspector>
+             * ```
+             * @example Only failed writes of one Thing
+             * ```html
+             * <ui-wot-inspector thing="http://plugfest.thingweb.io:8083/smart-coffee-machine" operation="writeproperty" errors-only="true"></ui-wot-inspector>
+             * ```
+             * @example JS Export
+             * ```javascript
+             * const inspector = document.querySelector('ui-wot-inspector');
+             * const json = await inspector.exportLog();
+             * ```
+             */
+            "ui-wot-inspector": LocalJSX.UiWotInspector & JSXBase.HTMLAttributes<HTMLUiWotInspectorElement>;
         }
     }
 }
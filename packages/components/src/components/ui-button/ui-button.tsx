@@ -1,5 +1,5 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
+import { UiMsg, WotActionBindable } from '../../utils/types'; // Standard message format and binding contract
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
@@ -21,13 +21,21 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
  *   await thing.invokeAction('execute');
  * });
  * ```
+ *
+ * @example Declarative action input and output (with connectAll or ui-thing)
+ * ```html
+ * <ui-slider id="fade-ms" value="500"></ui-slider>
+ * <ui-button td-action="fade" td-input-from="fade-ms" td-output="fade-result" label="Fade"></ui-button>
+ * <ui-button td-action="setColor" td-input='{"r": 255, "g": 0, "b": 0}' label="Red"></ui-button>
+ * <ui-text id="fade-result" mode="structured"></ui-text>
+ * ```
  */
 @Component({
   tag: 'ui-button',
   styleUrl: 'ui-button.css',
   shadow: true,
 })
-export class UiButton {
+export class UiButton implements WotActionBindable {
   @Element() el: HTMLElement;
 
   // ============================================= COMPONENT PROPERTIES =============================================
@@ -81,13 +89,15 @@ export class UiButton {
   private timestampUpdateTimer?: number;
 
   /** Stores the action function to execute on click */
-  private storedAction?: () => Promise<any>;
+  private storedAction?: (input?: any) => Promise<any>;
 
   // =============== EVENTS ===============
 
   /**
    * Emitted when button is clicked through user interaction.
    * Contains the button label, timestamp, and source information.
+   * When an action is configured it is emitted again once the action settles, with `meta: { settled: true, result }`
+   * carrying the action output, or `ok: false` and the error when the action failed.
    */
   @Event() clickMsg: EventEmitter<UiMsg<string>>;
 
@@ -96,6 +106,7 @@ export class UiButton {
   /**
    * Sets the action to execute when button is clicked.
    * This is the primary method for connecting button to real devices .
+   * The value the action resolves with is reported as `meta.result` of the `clickMsg` sent when it settles.
    *
    * @param actionFn - The async function to execute on button click
    * @returns Promise resolving to true if successful, false if failed
@@ -106,9 +117,17 @@ export class UiButton {
    *   await thing.invokeAction('execute');
    * });
    * ```
+   *
+   * @example With input and output
+   * ```javascript
+   * await button.setAction(async () => {
+   *   const output = await thing.invokeAction('fade', { duration: 500 });
+   *   return output.value();
+   * });
+   * ```
    */
   @Method()
-  async setAction(actionFn?: () => Promise<any>): Promise<boolean> {
+  async setAction(actionFn?: (input?: any) => Promise<any>): Promise<boolean> {
     this.storedAction = actionFn;
     return true;
   }
@@ -139,14 +158,16 @@ export class UiButton {
 
   // =============== PRIVATE METHODS ===============
 
-  /** Emits click events with consistent UIMsg data structure */
-  private emitClickMsg() {
+  /** Emits click events with consistent UIMsg data structure, including the outcome of a settled action */
+  private emitClickMsg(outcome?: { ok: true; result: any } | { ok: false; error: string }) {
     this.clickMsg.emit({
       newVal: this.label,
       prevVal: undefined,
       ts: Date.now(),
       source: this.el?.id || 'ui-button',
-      ok: true,
+      ok: outcome ? outcome.ok : true,
+      ...(outcome?.ok === false ? { error: { message: outcome.error } } : {}),
+      ...(outcome ? { meta: { settled: true, result: outcome.ok === true ? outcome.result : undefined } } : {}),
     });
   }
 
@@ -159,13 +180,16 @@ export class UiButton {
 
     StatusIndicator.applyStatus(this, 'loading');
 
-    // Execute stored action if available
+    // Execute stored action if available and report its output
     if (this.storedAction) {
       try {
-        await this.storedAction();
+        const result = await this.storedAction();
         StatusIndicator.applyStatus(this, 'success');
+        this.emitClickMsg({ ok: true, result });
       } catch (error) {
-        StatusIndicator.applyStatus(this, 'error', error?.message || 'Action failed');
+        const message = error?.message || 'Action failed';
+        StatusIndicator.applyStatus(this, 'error', message);
+        this.emitClickMsg({ ok: false, error: message });
       }
     } else {
       StatusIndicator.applyStatus(this, 'error', 'No action configured - setup may have failed');
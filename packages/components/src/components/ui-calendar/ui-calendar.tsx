@@ -1,6 +1,6 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
-import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
+import { UiMsg, WotPropertyBindable } from '../../utils/types'; // Standard message format and binding contract
+import { StatusIndicator, OperationStatus, OperationOutcome } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
  * A versatile calendar component designed for WoT device control.
@@ -31,7 +31,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-calendar.css',
   shadow: true,
 })
-export class UiCalendar {
+export class UiCalendar implements WotPropertyBindable<string> {
   @Element() el!: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
@@ -280,7 +280,7 @@ export class UiCalendar {
    * @param errorMessage - (Optional) error message for error status
    */
   @Method()
-  async setStatus(status: 'idle' | 'loading' | 'success' | 'error', errorMessage?: string): Promise<void> {
+  async setStatus(status: 'idle' | 'loading' | 'success' | 'error' | 'pending', errorMessage?: string): Promise<void> {
     StatusIndicator.applyStatus(this, status, errorMessage);
   }
 
@@ -353,13 +353,14 @@ export class UiCalendar {
     StatusIndicator.applyStatus(this, 'loading');
 
     try {
+      let result: any;
       if (options.writeOperation) {
-        await options.writeOperation(value);
+        result = await options.writeOperation(value);
       } else if (options.readOperation) {
         await options.readOperation();
       }
 
-      StatusIndicator.applyStatus(this, 'success');
+      StatusIndicator.applyResult(this, result);
 
       // Update value after successful operation, (if optimistic = false)
       if (!optimistic) {
@@ -424,7 +425,9 @@ export class UiCalendar {
     try {
       if (this.storedWriteOperation) {
         this.updateValue(newValue, prevValue);
-        await this.storedWriteOperation(newValue);
+        const result = await this.storedWriteOperation(newValue);
+        // Date selection shows no success badge, only other outcomes such as a queued write
+        if (result instanceof OperationOutcome) StatusIndicator.applyResult(this, result);
       } else {
         this.updateValue(newValue, prevValue);
       }
@@ -555,7 +558,8 @@ export class UiCalendar {
       if (this.storedWriteOperation) {
         this.selectedDate = newDate;
         this.value = newValue;
-        await this.storedWriteOperation(newValue);
+        const result = await this.storedWriteOperation(newValue);
+        if (result instanceof OperationOutcome) StatusIndicator.applyResult(this, result);
       } else {
         this.selectedDate = newDate;
         this.value = newValue;
@@ -607,7 +611,8 @@ export class UiCalendar {
       if (this.storedWriteOperation) {
         this.selectedDate = newDate;
         this.value = newValue;
-        await this.storedWriteOperation(newValue);
+        const result = await this.storedWriteOperation(newValue);
+        if (result instanceof OperationOutcome) StatusIndicator.applyResult(this, result);
       } else {
         this.selectedDate = newDate;
         this.value = newValue;
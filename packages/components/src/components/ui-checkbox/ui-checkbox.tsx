@@ -1,5 +1,5 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
+import { UiMsg, WotPropertyBindable } from '../../utils/types'; // Standard message format and binding contract
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
@@ -31,7 +31,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-checkbox.css',
   shadow: true,
 })
-export class UiCheckbox {
+export class UiCheckbox implements WotPropertyBindable<boolean> {
   @Element() el: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
@@ -221,7 +221,7 @@ export class UiCheckbox {
    * @param errorMessage - (Optional) error message for error status
    */
   @Method()
-  async setStatus(status: 'idle' | 'loading' | 'success' | 'error', errorMessage?: string): Promise<void> {
+  async setStatus(status: 'idle' | 'loading' | 'success' | 'error' | 'pending', errorMessage?: string): Promise<void> {
     StatusIndicator.applyStatus(this, status, errorMessage);
   }
 
@@ -282,13 +282,14 @@ export class UiCheckbox {
 
     try {
       // Execute the API call
+      let result: any;
       if (options.writeOperation) {
-        await options.writeOperation(value);
+        result = await options.writeOperation(value);
       } else if (options.readOperation) {
         await options.readOperation();
       }
 
-      StatusIndicator.applyStatus(this, 'success');
+      StatusIndicator.applyResult(this, result);
 
       // Update value after successful operation, (if optimistic = false)
       if (!optimistic) {
@@ -344,8 +345,8 @@ export class UiCheckbox {
       this.updateValue(newValue, prevValue);
 
       try {
-        await this.storedWriteOperation(newValue);
-        StatusIndicator.applyStatus(this, 'success');
+        const result = await this.storedWriteOperation(newValue);
+        StatusIndicator.applyResult(this, result);
       } catch (error) {
         StatusIndicator.applyStatus(this, 'error', error?.message || 'Operation failed');
         this.updateValue(prevValue, newValue, false);
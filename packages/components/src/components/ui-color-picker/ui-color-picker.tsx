@@ -1,5 +1,5 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
+import { UiMsg, WotPropertyBindable } from '../../utils/types'; // Standard message format and binding contract
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
@@ -27,7 +27,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-color-picker.css',
   shadow: true,
 })
-export class UiColorPicker {
+export class UiColorPicker implements WotPropertyBindable<string> {
   @Element() el: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
@@ -204,7 +204,7 @@ export class UiColorPicker {
    * @param errorMessage - (Optional) error message for error status
    */
   @Method()
-  async setStatus(status: 'idle' | 'loading' | 'success' | 'error', errorMessage?: string): Promise<void> {
+  async setStatus(status: 'idle' | 'loading' | 'success' | 'error' | 'pending', errorMessage?: string): Promise<void> {
     StatusIndicator.applyStatus(this, status, errorMessage);
   }
 
@@ -268,14 +268,15 @@ export class UiColorPicker {
 
     try {
       // Execute the API call
+      let result: any;
       if (options.writeOperation) {
         const formatted = this.formatColor(this.parseColor(value));
-        await options.writeOperation(formatted);
+        result = await options.writeOperation(formatted);
       } else if (options.readOperation) {
         await options.readOperation();
       }
 
-      StatusIndicator.applyStatus(this, 'success');
+      StatusIndicator.applyResult(this, result);
 
       // Update value after successful operation, (if optimistic = false)
       if (!optimistic) {
@@ -332,8 +333,8 @@ export class UiColorPicker {
       this.updateValue(newValue, prevValue);
 
       try {
-        await this.storedWriteOperation(this.value);
-        StatusIndicator.applyStatus(this, 'success');
+        const result = await this.storedWriteOperation(this.value);
+        StatusIndicator.applyResult(this, result);
       } catch (error) {
         StatusIndicator.applyStatus(this, 'error', error?.message || 'Operation failed');
         this.updateValue(prevValue, this.value, false);
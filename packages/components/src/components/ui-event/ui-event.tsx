@@ -1,5 +1,5 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
+import { UiMsg, WotEventBindable } from '../../utils/types'; // Standard message format and binding contract
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
@@ -35,7 +35,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-event.css',
   shadow: true,
 })
-export class UiEvent {
+export class UiEvent implements WotEventBindable {
   @Element() el: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
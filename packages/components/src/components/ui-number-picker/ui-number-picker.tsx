@@ -1,5 +1,5 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
+import { UiMsg, WotPropertyBindable } from '../../utils/types'; // Standard message format and binding contract
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
@@ -32,7 +32,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-number-picker.css',
   shadow: true,
 })
-export class UiNumberPicker {
+export class UiNumberPicker implements WotPropertyBindable<number> {
   @Element() el: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
@@ -84,6 +84,9 @@ export class UiNumberPicker {
   /** Step increment/decrement amount (optional) */
   @Prop() step?: number = 1;
 
+  /** Unit symbol shown next to the value, e.g. `°C`; set from the property DataSchema when bound (optional) */
+  @Prop() unit?: string;
+
   // ============================== COMPONENT STATE ==============================
 
   /** Current operation status for visual feedback */
@@ -240,7 +243,7 @@ export class UiNumberPicker {
    * @param errorMessage - (Optional) error message for error status
    */
   @Method()
-  async setStatus(status: 'idle' | 'loading' | 'success' | 'error', errorMessage?: string): Promise<void> {
+  async setStatus(status: 'idle' | 'loading' | 'success' | 'error' | 'pending', errorMessage?: string): Promise<void> {
     StatusIndicator.applyStatus(this, status, errorMessage);
   }
 
@@ -336,13 +339,14 @@ export class UiNumberPicker {
 
     try {
       // Execute the API call
+      let result: any;
       if (options.writeOperation) {
-        await options.writeOperation(value);
+        result = await options.writeOperation(value);
       } else if (options.readOperation) {
         await options.readOperation();
       }
 
-      StatusIndicator.applyStatus(this, 'success');
+      StatusIndicator.applyResult(this, result);
 
       // Update value after successful operation, (if optimistic = false)
       if (!optimistic) {
@@ -402,8 +406,8 @@ export class UiNumberPicker {
       this.updateValue(newValue, prevValue);
 
       try {
-        await this.storedWriteOperation(newValue);
-        StatusIndicator.applyStatus(this, 'success');
+        const result = await this.storedWriteOperation(newValue);
+        StatusIndicator.applyResult(this, result);
       } catch (error) {
         console.error('Write operation failed:', error);
         StatusIndicator.applyStatus(this, 'error', error?.message || 'Operation failed');
@@ -452,6 +456,15 @@ export class UiNumberPicker {
 
   // ============================== RENDERING HELPERS ==============================
 
+  /** Renders the unit symbol next to the value */
+  private renderUnit() {
+    return this.unit ? (
+      <span class="ml-1 text-xs opacity-75" part="unit">
+        {this.unit}
+      </span>
+    ) : null;
+  }
+
   /** Renders the status badge according to current operation state */
   private renderStatusBadge() {
     if (!this.showStatus) return null;
@@ -620,6 +633,7 @@ export class UiNumberPicker {
             >
               <span class={`text-lg font-medium`} style={{ color: this.dark ? 'white' : this.getActiveColor() }}>
                 {this.currentValue}
+                {this.renderUnit()}
               </span>
 
               {/* Read Pulse Indicator */}
@@ -675,6 +689,7 @@ export class UiNumberPicker {
                   title={`Current value: ${this.currentValue}`}
                 >
                   {this.currentValue}
+                  {this.renderUnit()}
                 </div>
 
                 {/* Increment Button */}
@@ -1,5 +1,6 @@
 import { Component, Prop, State, Element, h, Method } from '@stencil/core';
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
+import { WotPropertyBindable } from '../../utils/types'; // Binding contract
 
 /**
  * A versatile object component designed for WoT device to handle object type TD properties.
@@ -33,7 +34,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-object.css',
   shadow: true,
 })
-export class UiObject {
+export class UiObject implements WotPropertyBindable<any> {
   @Element() el!: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
@@ -214,9 +215,9 @@ export class UiObject {
           else payload[f.name] = typeof raw === 'undefined' || raw === null ? '' : String(raw);
         }
       }
-      await this.storedWriteOperation(payload);
+      const result = await this.storedWriteOperation(payload);
       this.value = { ...payload };
-      StatusIndicator.applyStatus(this, 'success');
+      StatusIndicator.applyResult(this, result);
       this.lastUpdatedTs = Date.now();
       return true;
     } catch (err: any) {
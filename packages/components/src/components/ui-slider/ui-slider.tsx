@@ -1,5 +1,5 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
+import { UiMsg, WotPropertyBindable } from '../../utils/types'; // Standard message format and binding contract
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
@@ -32,7 +32,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-slider.css',
   shadow: true,
 })
-export class UiSlider {
+export class UiSlider implements WotPropertyBindable<number> {
   @Element() el: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
@@ -92,6 +92,9 @@ export class UiSlider {
   /** Step increment/decrement amount (optional) */
   @Prop() step?: number = 1;
 
+  /** Unit symbol shown next to the value, e.g. `°C`; set from the property DataSchema when bound (optional) */
+  @Prop() unit?: string;
+
   // ============================== COMPONENT STATE ==============================
 
   /** Current operation status for visual feedback */
@@ -261,7 +264,7 @@ export class UiSlider {
    * @param errorMessage - (Optional) error message for error status
    */
   @Method()
-  async setStatus(status: 'idle' | 'loading' | 'success' | 'error', errorMessage?: string): Promise<void> {
+  async setStatus(status: 'idle' | 'loading' | 'success' | 'error' | 'pending', errorMessage?: string): Promise<void> {
     StatusIndicator.applyStatus(this, status, errorMessage);
   }
 
@@ -357,13 +360,14 @@ export class UiSlider {
 
     try {
       // Execute the API call
+      let result: any;
       if (options.writeOperation) {
-        await options.writeOperation(value);
+        result = await options.writeOperation(value);
       } else if (options.readOperation) {
         await options.readOperation();
       }
 
-      StatusIndicator.applyStatus(this, 'success');
+      StatusIndicator.applyResult(this, result);
 
       // Update value after successful operation, (if optimistic = false)
       if (!optimistic) {
@@ -420,8 +424,8 @@ export class UiSlider {
       this.updateValue(clampedValue, prevValue); // Optimistic update
 
       try {
-        await this.storedWriteOperation(clampedValue);
-        StatusIndicator.applyStatus(this, 'success');
+        const result = await this.storedWriteOperation(clampedValue);
+        StatusIndicator.applyResult(this, result);
       } catch (error) {
         StatusIndicator.applyStatus(this, 'error', error?.message || 'Operation failed');
         this.updateValue(prevValue, clampedValue, false); // Revert, no event
@@ -491,6 +495,15 @@ export class UiSlider {
 
   // ============================== RENDERING HELPERS ==============================
 
+  /** Renders the unit symbol next to the value */
+  private renderUnit() {
+    return this.unit ? (
+      <span class="ml-1 text-xs opacity-75" part="unit">
+        {this.unit}
+      </span>
+    ) : null;
+  }
+
   /** Renders the status badge according to current operation state */
   private renderStatusBadge() {
     if (!this.showStatus) return null;
@@ -777,6 +790,7 @@ export class UiSlider {
             >
               <span class={`text-lg font-medium`} style={{ color: this.dark ? 'white' : this.getActiveColorVar() } as any}>
                 {this.currentValue}
+                {this.renderUnit()}
               </span>
               {this.readPulseTs && Date.now() - this.readPulseTs < 1500 && this.renderReadPulseIndicator()}
               {this.showStatus && <span class="ml-2 inline-flex items-center">{this.renderStatusBadge()}</span>}
@@ -851,6 +865,7 @@ export class UiSlider {
                   } shadow-sm`}
                 >
                   {this.currentValue}
+                  {this.renderUnit()}
                 </div>
                 {/* Status badge placed next to value */}
                 {this.showStatus && <span class="ml-2 inline-flex items-center">{this.renderStatusBadge()}</span>}
@@ -882,6 +897,7 @@ export class UiSlider {
                   style={{ display: 'inline-block' }}
                 >
                   {this.currentValue}
+                  {this.renderUnit()}
                 </div>
                 {/* Status badge placed next to value */}
                 {this.showStatus && <span class="ml-2 inline-flex items-center">{this.renderStatusBadge()}</span>}
@@ -1,5 +1,5 @@
 import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
-import { UiMsg } from '../../utils/types'; // Standard message format
+import { UiMsg, WotPropertyBindable } from '../../utils/types'; // Standard message format and binding contract
 import { StatusIndicator, OperationStatus } from '../../utils/status-indicator'; // Status indicator utility
 
 /**
@@ -32,7 +32,7 @@ import { StatusIndicator, OperationStatus } from '../../utils/status-indicator';
   styleUrl: 'ui-text.css',
   shadow: true,
 })
-export class UiText {
+export class UiText implements WotPropertyBindable<string> {
   @Element() el: HTMLElement;
 
   // ============================== COMPONENT PROPERTIES ==============================
@@ -76,6 +76,9 @@ export class UiText {
   /** Placeholder text shown when value is empty (editable mode only). */
   @Prop() placeholder?: string;
 
+  /** Unit symbol shown after the value in field mode, e.g. `ppm`; set from the property DataSchema when bound (optional). */
+  @Prop() unit?: string;
+
   /** Maximum number of rows for area mode. */
   @Prop() maxRows: number = 10;
 
@@ -284,7 +287,7 @@ export class UiText {
    * @param errorMessage - (Optional) error message for error status
    */
   @Method()
-  async setStatus(status: 'idle' | 'loading' | 'success' | 'error', errorMessage?: string): Promise<void> {
+  async setStatus(status: 'idle' | 'loading' | 'success' | 'error' | 'pending', errorMessage?: string): Promise<void> {
     StatusIndicator.applyStatus(this, status, errorMessage);
   }
 
@@ -363,13 +366,14 @@ export class UiText {
 
     try {
       // Execute the operation
+      let result: any;
       if (options.writeOperation) {
-        await options.writeOperation(value);
+        result = await options.writeOperation(value);
       } else if (options.readOperation) {
         await options.readOperation();
       }
 
-      StatusIndicator.applyStatus(this, 'success');
+      StatusIndicator.applyResult(this, result);
 
       // Update value after successful operation, (if optimistic = false)
       if (!optimistic) {
@@ -515,8 +519,8 @@ export class UiText {
       this.updateValue(value); // Optimistic update
 
       try {
-        await this.storedWriteOperation(value);
-        StatusIndicator.applyStatus(this, 'success');
+        const result = await this.storedWriteOperation(value);
+        StatusIndicator.applyResult(this, result);
         this.hasUnsavedChanges = false;
       } catch (error) {
         console.error('Write operation failed:', error);
@@ -910,6 +914,11 @@ export class UiText {
         return (
           <span class="block overflow-hidden text-ellipsis whitespace-nowrap" title={this.value || this.placeholder || ''}>
             {this.value || this.placeholder}
+            {this.value && this.unit && (
+              <span class="ml-1 text-xs opacity-75" part="unit">
+                {this.unit}
+              </span>
+            )}
           </span>
         );
 
@@ -0,0 +1,273 @@
+import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
+import { UiMsg } from '../../utils/types'; // Standard message format
+import { loadThing } from '../../services/browser-bundle-connect'; // Connection layer
+import { discoverThings, matchesThingQuery, ThingSummary } from '../../services/thing-directory'; // TD Directory client
+
+/** Loading state of the directory listing */
+export type ThingListStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * Lists the Things registered in a W3C Thing Description Directory and lets the user pick one.
+ *
+ * The directory is queried once and the list is filtered locally as the user types. Picking a Thing
+ * consumes it and emits `thingSelect` with its summary, whose `url` can be handed to `<ui-thing td-url>`
+ * or `connectAll({ baseUrl })`.
+ *
+ * @example Basic Usage
+ * ```html
+ * <ui-thing-list directory="http://localhost:8081"></ui-thing-list>
+ * ```
+ *
+ * @example Pick a Thing for a dashboard
+ * ```html
+ * <ui-thing-list directory="http://localhost:8081" query="lamp"></ui-thing-list>
+ * <ui-thing id="dashboard">
+ *   <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+ * </ui-thing>
+ * <script>
+ *   document.querySelector('ui-thing-list').addEventListener('thingSelect', event => {
+ *     if (event.detail.ok) document.getElementById('dashboard').setAttribute('td-url', event.detail.newVal.url);
+ *   });
+ * </script>
+ * ```
+ */
+@Component({
+  tag: 'ui-thing-list',
+  styleUrl: 'ui-thing-list.css',
+  shadow: true,
+})
+export class UiThingList {
+  @Element() el: HTMLElement;
+
+  // ============================== COMPONENT PROPERTIES ==============================
+
+  /** Base URL of the Thing Description Directory, or its `/things` endpoint */
+  @Prop() directory!: string;
+
+  /** Text filter; every word must appear in the title, description, id, types or affordance names */
+  @Prop({ mutable: true }) query: string = '';
+
+  /** Show the search box */
+  @Prop() searchable: boolean = true;
+
+  /** Maximum number of Things loaded from the directory */
+  @Prop() maxResults: number = 500;
+
+  /** Id, or URL, of the selected Thing */
+  @Prop({ mutable: true }) selected?: string;
+
+  /** Enable dark mode theme styling */
+  @Prop() dark: boolean = false;
+
+  // ============================== COMPONENT STATE ==============================
+
+  /** Things listed by the directory */
+  @State() things: ThingSummary[] = [];
+
+  /** Current loading state of the listing */
+  @State() status: ThingListStatus = 'idle';
+
+  /** Error message when the directory query or consuming a Thing failed (optional) */
+  @State() lastError?: string;
+
+  /** Key of the Thing being consumed */
+  @State() picking?: string;
+
+  // ============================== PRIVATE PROPERTIES ==============================
+
+  /** Incremented on every query so stale results are dropped */
+  private generation: number = 0;
+
+  /** Cancels the running directory query */
+  private abort?: AbortController;
+
+  /** Set when removal cancelled a query, so re-attaching the element queries again */
+  private interrupted: boolean = false;
+
+  // ============================== EVENTS ==============================
+
+  /**
+   * Emitted when the user picked a Thing and it was consumed.
+   * Contains the Thing summary, or the error when consuming it failed.
+   */
+  @Event() thingSelect: EventEmitter<UiMsg<ThingSummary>>;
+
+  // ============================== PUBLIC METHODS ==============================
+
+  /**
+   * Query the directory again.
+   *
+   * @returns The Things listed by the directory
+   */
+  @Method()
+  async refresh(): Promise<ThingSummary[]> {
+    await this.load();
+    return this.things;
+  }
+
+  /**
+   * Get the Things matching the current query.
+   *
+   * @returns Summaries of the listed Things
+   */
+  @Method()
+  async getThings(): Promise<ThingSummary[]> {
+    return this.things.filter(thing => matchesThingQuery(thing, this.query));
+  }
+
+  // ============================== LIFECYCLE METHODS ==============================
+
+  /** Query the directory on first load */
+  componentWillLoad() {
+    void this.load();
+  }
+
+  /** Query again when re-attached after removal cancelled the query, e.g. when the element was moved */
+  connectedCallback() {
+    if (!this.interrupted) return;
+    this.interrupted = false;
+    void this.load();
+  }
+
+  /** Cancel a running query when removed */
+  disconnectedCallback() {
+    this.generation++;
+    if (this.status === 'loading') this.interrupted = true;
+    this.abort?.abort();
+  }
+
+  // ============================== WATCHERS ==============================
+
+  /** Query the new directory */
+  @Watch('directory')
+  @Watch('maxResults')
+  watchDirectory() {
+    void this.load();
+  }
+
+  // ============================== PRIVATE METHODS ==============================
+
+  /** Load the listing of the directory */
+  private async load(): Promise<void> {
+    const generation = ++this.generation;
+    this.abort?.abort();
+    if (!this.directory) {
+      this.things = [];
+      this.status = 'idle';
+      return;
+    }
+
+    const abort = new AbortController();
+    this.abort = abort;
+    this.status = 'loading';
+    this.lastError = undefined;
+    try {
+      const things = await discoverThings(this.directory, { maxResults: this.maxResults, signal: abort.signal });
+      if (generation !== this.generation) return;
+      this.things = things;
+      this.status = 'ready';
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.status = 'error';
+      this.lastError = error?.message || String(error);
+    }
+  }
+
+  /** Key identifying a Thing in the list */
+  private getKey(thing: ThingSummary): string {
+    return thing.id ?? thing.url ?? thing.title;
+  }
+
+  /** Consume the picked Thing and report it */
+  private async pick(thing: ThingSummary): Promise<void> {
+    const key = this.getKey(thing);
+    const prev = this.things.find(item => this.getKey(item) === this.selected || item.url === this.selected);
+    this.picking = key;
+    this.lastError = undefined;
+    try {
+      await loadThing(thing.url ? { baseUrl: thing.url } : { td: thing.td });
+      this.selected = key;
+      this.thingSelect.emit({ newVal: thing, prevVal: prev, ts: Date.now(), source: this.el?.id || 'ui-thing-list', ok: true });
+    } catch (error) {
+      const message = error?.message || String(error);
+      this.lastError = message;
+      this.thingSelect.emit({ newVal: thing, prevVal: prev, ts: Date.now(), source: this.el?.id || 'ui-thing-list', ok: false, error: { message } });
+    } finally {
+      if (this.picking === key) this.picking = undefined;
+    }
+  }
+
+  /** Render one Thing entry */
+  private renderThing(thing: ThingSummary) {
+    const key = this.getKey(thing);
+    const isSelected = this.selected === key || (!!thing.url && this.selected === thing.url);
+    const mutedClass = this.dark ? 'text-gray-400' : 'text-gray-500';
+    const selectedClass = isSelected ? 'border-[var(--color-primary)] ring-1 ring-[var(--color-primary)]' : 'border-[var(--color-neutral)]/30';
+    const counts = [
+      thing.properties.length && `${thing.properties.length} properties`,
+      thing.actions.length && `${thing.actions.length} actions`,
+      thing.events.length && `${thing.events.length} events`,
+    ].filter(Boolean);
+
+    return (
+      <li>
+        <button
+          class={`w-full text-left rounded-md border px-3 py-2 cursor-pointer hover:opacity-80 focus:outline-none focus:ring-2 ${selectedClass}`}
+          part="item"
+          aria-pressed={isSelected ? 'true' : 'false'}
+          disabled={this.picking === key}
+          onClick={() => this.pick(thing)}
+        >
+          <div class="flex justify-between items-center gap-2">
+            <span class="text-sm font-medium">{thing.title}</span>
+            {this.picking === key && <span class={`text-xs ${mutedClass}`}>Connecting...</span>}
+          </div>
+          {thing.description && <div class={`text-xs mt-1 ${mutedClass}`}>{thing.description}</div>}
+          <div class={`flex flex-wrap gap-1 mt-1 text-xs ${mutedClass}`}>
+            {thing.types.map(type => (
+              <span class="rounded px-1 border border-[var(--color-neutral)]/30">{type}</span>
+            ))}
+            {counts.length > 0 && <span>{counts.join(' · ')}</span>}
+          </div>
+        </button>
+      </li>
+    );
+  }
+
+  // ============================== MAIN COMPONENT RENDER METHOD ==============================
+
+  /**
+   * Renders the search box and the matching Things.
+   */
+  render() {
+    const visible = this.things.filter(thing => matchesThingQuery(thing, this.query));
+    const textClass = this.dark ? 'text-white' : 'text-gray-900';
+    const inputClass = `w-full text-sm rounded border px-2 py-1 mb-3 ${this.dark ? 'bg-gray-800 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+
+    return (
+      <div class={`w-full ${textClass}`} part="container" aria-busy={this.status === 'loading' ? 'true' : 'false'}>
+        {this.searchable && (
+          <input
+            class={inputClass}
+            part="search"
+            type="search"
+            placeholder="Search Things"
+            aria-label="Search Things"
+            value={this.query}
+            onInput={event => (this.query = (event.target as HTMLInputElement).value)}
+          />
+        )}
+        {this.status === 'loading' && <div class="text-xs text-[var(--color-neutral)]">Loading Things...</div>}
+        {this.lastError && (
+          <div class="text-xs text-red-500 mb-2" part="error" role="alert">
+            {this.lastError}
+          </div>
+        )}
+        {this.status === 'ready' && !visible.length && <div class="text-xs text-[var(--color-neutral)]">No Things found</div>}
+        <ul class="flex flex-col gap-2" part="list">
+          {visible.map(thing => this.renderThing(thing))}
+        </ul>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,252 @@
+import { Component, Element, Prop, State, Event, EventEmitter, Method, Watch, h } from '@stencil/core';
+import { UiMsg } from '../../utils/types'; // Standard message format
+import { connectAll, evictThing, loadThing, resolveTdRef, ThingTarget } from '../../services/browser-bundle-connect'; // Connection layer
+
+/** Loading state of the Thing behind the container */
+export type ThingLoadStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * A declarative container that binds its descendants to a WoT Thing, without any bootstrap script.
+ *
+ * It consumes the Thing from `td-url` (or an embedded TD referenced by `td-ref`) and connects every
+ * descendant carrying `td-property`, `td-action` or `td-event` attributes. While the TD is fetched the
+ * `loading` slot is shown, and the `error` slot when it fails. All bindings are removed when the
+ * container leaves the document.
+ *
+ * @example Basic Usage
+ * ```html
+ * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine">
+ *   <span slot="loading">Connecting to coffee machine...</span>
+ *   <span slot="error">Coffee machine unavailable</span>
+ *
+ *   <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+ *   <ui-button td-action="makeDrink" label="Make drink"></ui-button>
+ *   <ui-event td-event="outOfResource" label="Alerts"></ui-event>
+ * </ui-thing>
+ * ```
+ *
+ * @example Simulated Thing
+ * ```html
+ * <ui-thing td-url="http://plugfest.thingweb.io:8083/smart-coffee-machine" simulate>
+ *   <ui-number-picker td-property="availableResourceLevel" label="Water"></ui-number-picker>
+ * </ui-thing>
+ * ```
+ *
+ * @example Embedded Thing Description
+ * ```html
+ * <script type="application/td+json" id="lamp-td">{ "title": "Lamp", ... }</script>
+ * <ui-thing td-ref="lamp-td">
+ *   <ui-toggle td-property="on" label="Lamp"></ui-toggle>
+ * </ui-thing>
+ * ```
+ */
+@Component({
+  tag: 'ui-thing',
+  styleUrl: 'ui-thing.css',
+  shadow: true,
+})
+export class UiThing {
+  @Element() el: HTMLElement;
+
+  // ============================== COMPONENT PROPERTIES ==============================
+
+  /** URL of the Thing Description to consume */
+  @Prop({ attribute: 'td-url' }) tdUrl?: string;
+
+  /** Id of a `<script type="application/td+json">` element holding the Thing Description */
+  @Prop({ attribute: 'td-ref' }) tdRef?: string;
+
+  /**
+   * Serve the Thing from an in-browser simulator generated from its TD instead of the device.
+   * Descendants bound to the same Thing follow it; giving only some of them `td-simulate` is rejected.
+   */
+  @Prop() simulate: boolean = false;
+
+  /** Keep descendants in sync when they are added, removed or their td-* attributes change */
+  @Prop() watch: boolean = true;
+
+  /** Enable dark mode theme styling of the default loading and error content */
+  @Prop() dark: boolean = false;
+
+  // ============================== COMPONENT STATE ==============================
+
+  /** Current loading state of the Thing */
+  @State() status: ThingLoadStatus = 'idle';
+
+  /** Error message when loading or connecting failed (optional) */
+  @State() lastError?: string;
+
+  // ============================== PRIVATE PROPERTIES ==============================
+
+  /** Cleanups of the current bindings */
+  private cleanups: Array<() => void | Promise<void>> = [];
+
+  /** Incremented on every (re)connect so stale async results are dropped */
+  private generation: number = 0;
+
+  /** Tracks whether the first render happened, to reconnect when re-attached */
+  private hasLoaded: boolean = false;
+
+  // ============================== EVENTS ==============================
+
+  /**
+   * Emitted when the loading state of the Thing changes.
+   * Contains the new status, previous status, timestamp, and the error if loading failed.
+   */
+  @Event() thingStatus: EventEmitter<UiMsg<ThingLoadStatus>>;
+
+  // ============================== PUBLIC METHODS ==============================
+
+  /**
+   * Disconnect all descendants and connect them again, consuming the Thing anew if it is not cached.
+   *
+   * @returns Promise resolving to true when the Thing was loaded and descendants connected
+   */
+  @Method()
+  async reconnect(): Promise<boolean> {
+    return this.connect();
+  }
+
+  /**
+   * Gets the current loading state with optional metadata.
+   *
+   * @param includeMetadata - Whether to include the error information
+   * @returns Current status or detailed metadata object
+   */
+  @Method()
+  async getStatus(includeMetadata: boolean = false): Promise<ThingLoadStatus | { status: ThingLoadStatus; error?: string }> {
+    if (includeMetadata) return { status: this.status, error: this.lastError };
+    return this.status;
+  }
+
+  // ============================== LIFECYCLE METHODS ==============================
+
+  /** Connect descendants once they are rendered */
+  componentDidLoad() {
+    this.hasLoaded = true;
+    void this.connect();
+  }
+
+  /** Reconnect when the container is moved back into the document */
+  connectedCallback() {
+    if (this.hasLoaded) void this.connect();
+  }
+
+  /** Remove all bindings when the container leaves the document */
+  disconnectedCallback() {
+    this.generation++;
+    void this.disconnect();
+  }
+
+  // ============================== WATCHERS ==============================
+
+  /** Re-bind descendants when the Thing reference changes */
+  @Watch('tdUrl')
+  @Watch('tdRef')
+  @Watch('watch')
+  watchTarget() {
+    if (this.hasLoaded) void this.connect();
+  }
+
+  /** Bind the Thing anew, simulated or to the device */
+  @Watch('simulate')
+  watchSimulate() {
+    if (!this.hasLoaded) return;
+    try {
+      const target = this.getTarget();
+      evictThing(target.td ?? target.baseUrl);
+    } catch {}
+    void this.connect();
+  }
+
+  // ============================== PRIVATE METHODS ==============================
+
+  /** Build the connection target from the td-url / td-ref attributes and `simulate` */
+  private getTarget(): ThingTarget {
+    const simulate = this.simulate || undefined;
+    if (this.tdRef) return { td: resolveTdRef(this.tdRef, this.el.ownerDocument), simulate };
+    if (this.tdUrl) return { baseUrl: this.tdUrl, simulate };
+    throw new Error('Either td-url or td-ref is required');
+  }
+
+  /** Load the Thing and connect all descendants, replacing previous bindings */
+  private async connect(): Promise<boolean> {
+    const generation = ++this.generation;
+    await this.disconnect();
+    this.setStatus('loading');
+
+    try {
+      const target = this.getTarget();
+      await loadThing(target);
+      if (generation !== this.generation) return false;
+
+      const cleanups = await connectAll({ ...target, container: this.el, watch: this.watch });
+      if (generation !== this.generation) {
+        for (const stop of cleanups) await stop();
+        return false;
+      }
+      this.cleanups = cleanups;
+      this.setStatus('ready');
+      return true;
+    } catch (error) {
+      if (generation !== this.generation) return false;
+      this.setStatus('error', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /** Run and forget the cleanups of the current bindings */
+  private async disconnect(): Promise<void> {
+    const cleanups = this.cleanups;
+    this.cleanups = [];
+    for (const stop of cleanups) {
+      try {
+        await stop();
+      } catch {}
+    }
+  }
+
+  /** Update the loading state and emit it with consistent UIMsg data structure */
+  private setStatus(status: ThingLoadStatus, errorMessage?: string) {
+    const prevStatus = this.status;
+    this.status = status;
+    this.lastError = errorMessage;
+    this.thingStatus.emit({
+      newVal: status,
+      prevVal: prevStatus,
+      ts: Date.now(),
+      source: this.el?.id || 'ui-thing',
+      ok: status !== 'error',
+      ...(errorMessage ? { error: { message: errorMessage } } : {}),
+    });
+  }
+
+  // ============================== MAIN COMPONENT RENDER METHOD ==============================
+
+  /**
+   * Renders the loading / error slots followed by the bound content.
+   */
+  render() {
+    const textClass = this.dark ? 'text-gray-300' : 'text-gray-600';
+
+    return (
+      <div part="container" aria-busy={this.status === 'loading' ? 'true' : 'false'}>
+        {this.status === 'loading' && (
+          <slot name="loading">
+            <span class={`inline-flex items-center text-sm ${textClass}`} part="loading">
+              Loading Thing...
+            </span>
+          </slot>
+        )}
+        {this.status === 'error' && (
+          <slot name="error">
+            <span class="inline-flex items-center text-sm text-red-500" part="error" role="alert">
+              {this.lastError || 'Failed to load Thing'}
+            </span>
+          </slot>
+        )}
+        <slot></slot>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,256 @@
+import { Component, Element, Prop, State, Method, Watch, h } from '@stencil/core';
+import {
+  clearInteractionLog,
+  exportInteractionLog,
+  getInteractionLog,
+  INTERACTION_OPERATIONS,
+  InteractionLogFilter,
+  InteractionOperation,
+  InteractionRecord,
+  matchesInteractionFilter,
+  subscribeInteractionLog,
+} from '../../services/interaction-log'; // Interaction log of the connection layer
+
+/**
+ * A debug panel showing the WoT interactions of the connection layer live.
+ *
+ * Every read, write, action invocation, observe notification and event is listed with its Thing,
+ * affordance, payload, latency and error. The list can be filtered by Thing and operation, and
+ * exported as JSON to attach to a support request.
+ *
+ * @example Basic Usage
+ * ```html
+ * <ui-wot-inspector></ui-wot-inspector>
+ * ```
+ *
+ * @example Only failed writes of one Thing
+ * ```html
+ * <ui-wot-inspector thing="http://plugfest.thingweb.io:8083/smart-coffee-machine" operation="writeproperty" errors-only="true"></ui-wot-inspector>
+ * ```
+ *
+ * @example JS Export
+ * ```javascript
+ * const inspector = document.querySelector('ui-wot-inspector');
+ * const json = await inspector.exportLog();
+ * ```
+ */
+@Component({
+  tag: 'ui-wot-inspector',
+  styleUrl: 'ui-wot-inspector.css',
+  shadow: true,
+})
+export class UiWotInspector {
+  @Element() el: HTMLElement;
+
+  // ============================== COMPONENT PROPERTIES ==============================
+
+  /** Show only interactions of this Thing (TD URL, id or title) */
+  @Prop({ mutable: true }) thing?: string;
+
+  /** Show only interactions of this operation */
+  @Prop({ mutable: true }) operation?: InteractionOperation;
+
+  /** Show only failed interactions */
+  @Prop({ mutable: true }) errorsOnly: boolean = false;
+
+  /** Maximum number of rows shown, newest first */
+  @Prop() maxRows: number = 200;
+
+  /** Enable dark mode theme styling */
+  @Prop() dark: boolean = false;
+
+  // ============================== COMPONENT STATE ==============================
+
+  /** Records currently held by the panel, oldest first */
+  @State() records: InteractionRecord[] = [];
+
+  // ============================== PRIVATE PROPERTIES ==============================
+
+  /** Removes the interaction log listener */
+  private unsubscribe?: () => void;
+
+  // ============================== PUBLIC METHODS ==============================
+
+  /**
+   * Get the interactions matching the current filters as JSON.
+   *
+   * @returns JSON dump of the interaction log
+   */
+  @Method()
+  async exportLog(): Promise<string> {
+    return exportInteractionLog(this.getFilter());
+  }
+
+  /**
+   * Clear the interaction log.
+   */
+  @Method()
+  async clear(): Promise<void> {
+    clearInteractionLog();
+    this.records = [];
+  }
+
+  // ============================== LIFECYCLE METHODS ==============================
+
+  /** Load existing records and follow new ones */
+  connectedCallback() {
+    this.records = getInteractionLog().slice(-this.maxRows);
+    this.unsubscribe = subscribeInteractionLog(record => {
+      const next = [...this.records, record];
+      this.records = next.length > this.maxRows ? next.slice(next.length - this.maxRows) : next;
+    });
+  }
+
+  /** Stop following the log when removed */
+  disconnectedCallback() {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  // ============================== WATCHERS ==============================
+
+  /** Reload records when the row limit changes */
+  @Watch('maxRows')
+  watchMaxRows() {
+    this.records = getInteractionLog().slice(-this.maxRows);
+  }
+
+  // ============================== PRIVATE METHODS ==============================
+
+  /** Build the log filter from the current props */
+  private getFilter(): InteractionLogFilter {
+    return { thing: this.thing || undefined, operation: this.operation || undefined, errorsOnly: this.errorsOnly };
+  }
+
+  /** Key used to filter by Thing */
+  private getThingKey(record: InteractionRecord): string | undefined {
+    return record.thingUrl ?? record.thingId ?? record.thingTitle;
+  }
+
+  /** Save the filtered log as a JSON file */
+  private handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportInteractionLog(this.getFilter())], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `wot-interactions-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  /** Short text of a payload for the table */
+  private formatPayload(payload: any): string {
+    if (payload === undefined) return '';
+    const text = typeof payload === 'string' ? payload : JSON.stringify(payload);
+    return text && text.length > 80 ? `${text.slice(0, 77)}...` : (text ?? '');
+  }
+
+  /** Render the filter and action bar */
+  private renderToolbar(things: Array<{ key: string; label: string }>) {
+    const inputClass = `text-xs rounded border px-2 py-1 ${this.dark ? 'bg-gray-800 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+    const buttonClass = 'px-3 py-1 rounded-md font-medium text-xs cursor-pointer hover:opacity-80 focus:outline-none focus:ring-2 focus:ring-offset-2';
+
+    return (
+      <div class="flex flex-wrap items-center gap-2 mb-3" part="toolbar">
+        <select class={inputClass} aria-label="Filter by Thing" onChange={event => (this.thing = (event.target as HTMLSelectElement).value || undefined)}>
+          <option value="" selected={!this.thing}>
+            All Things
+          </option>
+          {things.map(thing => (
+            <option value={thing.key} selected={thing.key === this.thing}>
+              {thing.label}
+            </option>
+          ))}
+        </select>
+        <select
+          class={inputClass}
+          aria-label="Filter by operation"
+          onChange={event => (this.operation = ((event.target as HTMLSelectElement).value || undefined) as InteractionOperation)}
+        >
+          <option value="" selected={!this.operation}>
+            All operations
+          </option>
+          {INTERACTION_OPERATIONS.map(operation => (
+            <option value={operation} selected={operation === this.operation}>
+              {operation}
+            </option>
+          ))}
+        </select>
+        <label class={`flex items-center gap-1 text-xs ${this.dark ? 'text-gray-300' : 'text-gray-600'}`}>
+          <input type="checkbox" checked={this.errorsOnly} onChange={event => (this.errorsOnly = (event.target as HTMLInputElement).checked)} />
+          Errors only
+        </label>
+        <button class={buttonClass} style={{ backgroundColor: 'var(--color-neutral)', color: 'white' }} onClick={() => this.clear()}>
+          Clear
+        </button>
+        <button class={buttonClass} style={{ backgroundColor: 'var(--color-primary)', color: 'white' }} onClick={this.handleExport}>
+          Export JSON
+        </button>
+      </div>
+    );
+  }
+
+  /** Render one interaction row */
+  private renderRecord(record: InteractionRecord) {
+    const mutedClass = this.dark ? 'text-gray-400' : 'text-gray-500';
+    return (
+      <tr class={`border-t border-[var(--color-neutral)]/20 ${record.ok ? '' : 'text-red-500'}`} part="row">
+        <td class={`px-2 py-1 whitespace-nowrap ${mutedClass}`}>{new Date(record.ts).toLocaleTimeString()}</td>
+        <td class="px-2 py-1 whitespace-nowrap">{record.thingTitle ?? record.thingId ?? record.thingUrl ?? '-'}</td>
+        <td class="px-2 py-1 whitespace-nowrap">{record.operation}</td>
+        <td class="px-2 py-1 whitespace-nowrap">{record.affordance ?? ''}</td>
+        <td class="px-2 py-1 font-mono break-all" title={record.error}>
+          {record.ok ? this.formatPayload(record.payload) : record.error}
+        </td>
+        <td class={`px-2 py-1 whitespace-nowrap text-right ${mutedClass}`}>{record.latencyMs !== undefined ? `${record.latencyMs} ms` : ''}</td>
+      </tr>
+    );
+  }
+
+  // ============================== MAIN COMPONENT RENDER METHOD ==============================
+
+  /**
+   * Renders the toolbar and the filtered interaction table, newest first.
+   */
+  render() {
+    const filter = this.getFilter();
+    const visible = this.records.filter(record => matchesInteractionFilter(record, filter)).reverse();
+    const things = new Map<string, string>();
+    for (const record of this.records) {
+      const key = this.getThingKey(record);
+      if (key && !things.has(key)) things.set(key, record.thingTitle ?? record.thingId ?? key);
+    }
+    const textClass = this.dark ? 'text-white' : 'text-gray-900';
+    const panelBg = this.dark ? 'bg-transparent' : 'bg-[var(--neutral-clr-50)]';
+
+    return (
+      <div class={`w-full rounded-lg border border-[var(--color-neutral)]/30 p-4 ${panelBg} ${textClass}`} part="container">
+        <div class="flex justify-between items-center mb-3">
+          <span class="text-sm font-medium">WoT interactions</span>
+          <span class="text-xs text-[var(--color-neutral)]">
+            {visible.length} / {this.records.length}
+          </span>
+        </div>
+        {this.renderToolbar(Array.from(things, ([key, label]) => ({ key, label })))}
+        <div class="max-h-96 overflow-auto border rounded border-[var(--color-neutral)]/30">
+          {visible.length ? (
+            <table class="w-full text-xs text-left">
+              <thead>
+                <tr class="text-[var(--color-neutral)]">
+                  <th class="px-2 py-1 font-medium">Time</th>
+                  <th class="px-2 py-1 font-medium">Thing</th>
+                  <th class="px-2 py-1 font-medium">Operation</th>
+                  <th class="px-2 py-1 font-medium">Affordance</th>
+                  <th class="px-2 py-1 font-medium">Payload / error</th>
+                  <th class="px-2 py-1 font-medium text-right">Latency</th>
+                </tr>
+              </thead>
+              <tbody>{visible.map(record => this.renderRecord(record))}</tbody>
+            </table>
+          ) : (
+            <div class="p-3 text-xs text-[var(--color-neutral)]">No interactions recorded</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+}
@@ -18,9 +18,13 @@ export { UiEvent } from './components/ui-event/ui-event';
 export { UiColorPicker } from './components/ui-color-picker/ui-color-picker';
 export { UiFilePicker } from './components/ui-file-picker/ui-file-picker';
 export { UiObject } from './components/ui-object/ui-object';
+export { UiThing } from './components/ui-thing/ui-thing';
+export { UiThingList } from './components/ui-thing-list/ui-thing-list';
+export { UiWotInspector } from './components/ui-wot-inspector/ui-wot-inspector';
 
 // Export utility types
 export * from './utils/types';
+export { OperationOutcome } from './utils/status-indicator';
 
 // Export services (tree-shakable)
 export * as Services from './services';
@@ -37,4 +41,65 @@ export {
   connectAction as connectAction,
   connectEvent as connectEvent,
   connectAll as connectAll,
+  evictThing,
+  refreshThing,
+  watchThing,
+  unwatchThing,
+  loadThing,
+  resolveTdRef,
+  getThingStatus,
+  getThingStatuses,
+  isPropertyBindable,
+  isActionBindable,
+  isEventBindable,
 } from './services/browser-bundle-connect';
+export type {
+  InitializeWotOptions,
+  ClientFactoryName,
+  WotClientFactory,
+  ThingDescription,
+  ThingTarget,
+  ThingChange,
+  AffordanceNames,
+  ConnectPropertyOptions,
+  ConnectActionOptions,
+  ConnectEventOptions,
+  WotCredentials,
+  CredentialRequest,
+  CredentialProvider,
+  ThingConnectionState,
+  ThingStatus,
+  WriteValidator,
+  ConnectAllOptions,
+  ConnectProgress,
+  UriVariables,
+  FormSelection,
+  OfflineQueueOptions,
+  WriteConflict,
+  TdValidationFailure,
+} from './services/browser-bundle-connect';
+export type { ValueType } from './services/output-decoder';
+export { discoverThings, summarizeThing, matchesThingQuery } from './services/thing-directory';
+export type { ThingSummary, DiscoverThingsOptions } from './services/thing-directory';
+export type { BackoffOptions } from './services/subscription-supervisor';
+export { validateAgainstSchema, formatSchemaIssues } from './services/schema-validator';
+export type { SchemaIssue } from './services/schema-validator';
+export { validateThingDescription } from './services/td-validator';
+export type { TdIssue, TdValidationResult, TdValidationOptions } from './services/td-validator';
+export { registerTransform, compileTransform } from './services/value-transform';
+export type { ValueTransform, TransformStep, TransformSpec } from './services/value-transform';
+export { registerUnit, resolveUnit, formatUnit, convertUnit, getPreferredUnit, getUnitSystem, setUnitSystem, subscribeUnitSystem } from './services/unit-registry';
+export type { UnitSystem, UnitDefinition } from './services/unit-registry';
+export {
+  configureInteractionLog,
+  getInteractionLog,
+  clearInteractionLog,
+  exportInteractionLog,
+  subscribeInteractionLog,
+  INTERACTION_OPERATIONS,
+} from './services/interaction-log';
+export type { InteractionOperation, InteractionRecord, InteractionLogFilter, InteractionLogOptions } from './services/interaction-log';
+export { getQueuedWrites, discardQueuedWrites } from './services/write-queue';
+export type { QueuedWriteInfo } from './services/write-queue';
+export { createSimulatedThing } from './services/thing-simulator';
+export type { SimulatorOptions } from './services/thing-simulator';
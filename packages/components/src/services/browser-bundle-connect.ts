@@ -5,64 +5,947 @@
  *
  */
 
+import { BackoffOptions, superviseSubscription } from './subscription-supervisor';
+import { formatSchemaIssues, validateAgainstSchema } from './schema-validator';
+import { setPollTracer, subscribePoll } from './poll-scheduler';
+import { DecodeOptions, normalizeContentType, readOutputValue, ValueType } from './output-decoder';
+import type { WotActionBindable, WotEventBindable, WotPropertyBindable } from '../utils/types';
+import { OperationOutcome } from '../utils/status-indicator';
+import { InteractionOperation, InteractionRecord, recordInteraction } from './interaction-log';
+import { createSimulatedThing, SimulatorOptions } from './thing-simulator';
+import { TdIssue, validateThingDescription } from './td-validator';
+import { compileTransform, parseTransformAttr, TransformSpec, transformSchema } from './value-transform';
+import { formatUnit, getPreferredUnit, getUnitSystem, hasUnitCounterpart, subscribeUnitSystem, UnitSystem } from './unit-registry';
+import { createWriteScheduler, ScheduledWrite } from './write-scheduler';
+import { enqueueWrite, getLastQueuedValue, hasQueuedWrites, QueuedWriteOutcome, replayWrites } from './write-queue';
+
 /** Store all cleanup functions for active connections */
 type Cleanup = () => void | Promise<void>;
 
 /** Update strategies for properties. */
 type ObserveStrategy = 'observe' | 'poll' | 'auto';
 
+/** A Thing Description object, e.g. embedded in the page or generated from a Thing Model. */
+export type ThingDescription = Record<string, any>;
+
+/**
+ * Identifies the Thing to bind: a TD URL to fetch (`baseUrl`) or an in-memory TD (`td`).
+ * With `simulate`, the Thing is served by an in-browser simulator generated from its TD; every binding of a source
+ * must agree on it, as they share one Thing.
+ */
+export type ThingTarget = { baseUrl?: string; td?: ThingDescription; simulate?: boolean | SimulatorOptions };
+
+/** Client factory names that can be resolved from the Node‑WoT browser bundle global. */
+export type ClientFactoryName = 'http' | 'https' | 'coap' | 'coaps' | 'ws' | 'mqtt' | 'mqtts';
+
+/** Minimal shape of a Node‑WoT protocol client factory. */
+export type WotClientFactory = { getScheme(): string; getClient(): any; [key: string]: any };
+
+/** Credentials for a Thing, in the shape node-wot expects for basic, bearer, apikey and psk schemes. */
+export type WotCredentials = { username?: string; password?: string; token?: string; apiKey?: string; identity?: string; psk?: string; [key: string]: any };
+
+/** Security requirements of a Thing, handed to a credential provider callback before the TD is consumed. */
+export type CredentialRequest = { thingId?: string; title?: string; schemes: Array<{ name: string; scheme: string; [key: string]: any }> };
+
+/** Static credentials keyed by Thing id, or a callback that resolves them (e.g. by prompting the user). */
+export type CredentialProvider = Record<string, WotCredentials> | ((request: CredentialRequest) => WotCredentials | undefined | Promise<WotCredentials | undefined>);
+
 /** Options for initializing the global WoT instance. */
-export type InitializeWotOptions = { reuseExisting?: boolean };
+export type InitializeWotOptions = {
+  reuseExisting?: boolean;
+  /** Client factories to register on the Servient, by name or as instances. Defaults to `['http']`. */
+  clientFactories?: Array<ClientFactoryName | WotClientFactory>;
+  /** Per-scheme configuration passed to the constructor of factories created by name. */
+  bindingConfig?: Partial<Record<ClientFactoryName, any>>;
+  /** Scheme order used when an affordance offers forms for several protocols. Defaults to registration order. */
+  preferredSchemes?: string[];
+  /** Credentials for Things whose TD declares `securityDefinitions` other than `nosec`. */
+  credentials?: CredentialProvider;
+  /** Serve every Thing from an in-browser simulator generated from its TD; no device or WoT bundle is needed. */
+  simulate?: boolean | SimulatorOptions;
+  /** Validate TDs before consuming them and reject those with errors (default true). Simulated Things are never validated. */
+  validateTds?: boolean;
+};
+
+/** Where each named client factory lives in the browser bundle: candidate namespaces and class name. */
+const CLIENT_FACTORY_EXPORTS: Record<ClientFactoryName, { namespaces: string[]; className: string }> = {
+  http: { namespaces: ['Http'], className: 'HttpClientFactory' },
+  https: { namespaces: ['Http'], className: 'HttpsClientFactory' },
+  coap: { namespaces: ['Coap'], className: 'CoapClientFactory' },
+  coaps: { namespaces: ['Coap'], className: 'CoapsClientFactory' },
+  ws: { namespaces: ['WebSocket', 'WebSockets', 'Websockets'], className: 'WebSocketClientFactory' },
+  mqtt: { namespaces: ['Mqtt', 'MQTT'], className: 'MqttClientFactory' },
+  mqtts: { namespaces: ['Mqtt', 'MQTT'], className: 'MqttsClientFactory' },
+};
 
 let sharedWot: any | null = null;
-const thingCache = new Map<string, any>();
+let sharedServient: any | null = null;
+let credentialProvider: CredentialProvider | undefined;
+let tdValidation = true;
+/** Simulator settings when every Thing is simulated (`initializeWot({ simulate })`) */
+let globalSimulation: SimulatorOptions | false = false;
+
+/** A consumed Thing together with the TD version it was built from. */
+type CachedThing = { thing: any; td: ThingDescription; snapshot: string; etag?: string };
+
+/** Simulator settings of sources bound with `simulate` or `td-simulate`, or false for sources bound to the device */
+const simulatedSources = new Map<string | ThingDescription, SimulatorOptions | false>();
+
+/** Consumed Things keyed by TD URL, or by the canonical object of an inline TD (see `toSourceKey()`) */
+const thingCache = new Map<string | ThingDescription, CachedThing>();
+
+/** First object seen for each inline TD, keyed by its id, or by its content when it has none; dropped on eviction */
+const inlineSources = new Map<string, ThingDescription>();
+
+/** Key in `inlineSources` of each canonical inline TD object */
+const inlineKeys = new WeakMap<ThingDescription, string>();
+
+/** Canonical object of every inline TD object passed in, so in-place edits keep their key */
+const canonicalSources = new WeakMap<ThingDescription, ThingDescription>();
+
+/** In-flight TD fetches and consumes, so parallel bindings of one Thing share a single request */
+const pendingThings = new Map<string | ThingDescription, Promise<any>>();
+
+/** Initial property values read in batch by connectAll, taken by the first bind of each property and dropped after the pass */
+const prefetchedValues = new WeakMap<object, Map<string, Promise<any>>>();
+
+/** Kinds of element bindings created by the connect helpers. */
+type BindingKind = 'property' | 'action' | 'event';
+
+/** A live element binding; `bind` re-creates it against a (re)consumed Thing. */
+type Binding = {
+  element: HTMLElement;
+  kind: BindingKind;
+  source: string | ThingDescription;
+  bind: (thing: any) => Promise<Cleanup>;
+  stop: Cleanup;
+};
+
+/** All active bindings, used to re-bind elements when their Thing changes */
+const bindings = new Set<Binding>();
+
+/** Property elements showing values converted to the page unit system, re-bound when it changes */
+const unitSystemElements = new WeakSet<HTMLElement>();
+
+/** Reachability of a Thing as seen by the connection layer. */
+export type ThingConnectionState = 'unknown' | 'online' | 'offline';
+
+/** Connection status of a Thing; the detail of `ui-wot:thing-online` and `ui-wot:thing-offline` events. */
+export type ThingStatus = {
+  /** TD URL or inline TD object the Thing was bound with */
+  source: string | ThingDescription;
+  thingId?: string;
+  title?: string;
+  state: ThingConnectionState;
+  /** Time of the last successful interaction */
+  lastSeen?: number;
+  /** Message of the last failed interaction */
+  lastError?: string;
+  /** Time of the last state change */
+  since: number;
+};
+
+/** Connection status per Thing source */
+const thingStatuses = new Map<string | ThingDescription, ThingStatus>();
+
+/** Source of each consumed Thing, so interactions can report reachability */
+const thingSources = new WeakMap<object, string | ThingDescription>();
+
+/** Active TD change watchers keyed by TD URL, holding the timer of their next check */
+const thingWatchers = new Map<string, { timer?: ReturnType<typeof setTimeout> }>();
+
+/** Parsed `<script type="application/td+json">` blocks, so a `td-ref` always resolves to the same TD object */
+const embeddedTdCache = new WeakMap<Element, ThingDescription>();
+
+/** Schemes with a registered client, in the order used for form selection. */
+let clientSchemes: string[] = [];
+
+/** Create a client factory from its name using the classes exposed by the browser bundle. */
+function createClientFactory(wotGlobal: any, name: ClientFactoryName, config?: any): WotClientFactory {
+  const entry = CLIENT_FACTORY_EXPORTS[name];
+  if (!entry) throw new Error(`Unknown client factory "${name}". Pass a factory instance instead.`);
+  for (const namespace of entry.namespaces) {
+    const FactoryClass = wotGlobal[namespace]?.[entry.className];
+    if (typeof FactoryClass === 'function') return config === undefined ? new FactoryClass() : new FactoryClass(config);
+  }
+  throw new Error(`Client factory "${name}" not found in the Node-WoT browser bundle (expected WoT.${entry.namespaces[0]}.${entry.className}).`);
+}
+
+/** Order registered schemes so preferred ones come first. */
+function orderSchemes(registered: string[], preferred?: string[]): string[] {
+  if (!preferred?.length) return registered;
+  const first = preferred.filter(scheme => registered.includes(scheme));
+  return [...first, ...registered.filter(scheme => !first.includes(scheme))];
+}
 
 /**
  * Initialize and cache a WoT instance from the Node‑WoT browser bundle.
- * - If a Servient is available, start it with an Http client factory.
+ * - If a Servient is available, start it with the configured client factories (Http by default).
  * - Otherwise, if `consume()` exists directly, use that object as WoT.
+ * - With `simulate`, every Thing is served by an in-browser simulator instead (see `createSimulatedThing()`).
  */
 export async function initializeWot(options?: InitializeWotOptions): Promise<{ wot: any }> {
   const reuseExisting = options?.reuseExisting !== false;
-  if (reuseExisting && sharedWot) return { wot: sharedWot };
+  if (reuseExisting && sharedWot) {
+    applyToExistingWot(options);
+    return { wot: sharedWot };
+  }
 
   const wotGlobal: any = (window as any).WoT;
-  if (!wotGlobal) {
+  globalSimulation = options?.simulate ? toSimulatorOptions(options.simulate) : false;
+  if (globalSimulation) {
+    const simulation = globalSimulation;
+    sharedWot = { consume: async (td: ThingDescription) => createSimulatedThing(td, simulation) };
+    sharedServient = null;
+    clientSchemes = [];
+  } else if (!wotGlobal) {
     throw new Error('Node-WoT browser bundle not found. Include wot-bundle.min.js before using initializeWot().');
-  }
-
-  if (wotGlobal.Core && wotGlobal.Core.Servient && wotGlobal.Http && typeof wotGlobal.Core.Servient === 'function') {
+  } else if (wotGlobal.Core && typeof wotGlobal.Core.Servient === 'function') {
     const servient = new wotGlobal.Core.Servient();
-    servient.addClientFactory(new wotGlobal.Http.HttpClientFactory());
+    const registered: string[] = [];
+    for (const entry of options?.clientFactories ?? ['http']) {
+      const factory = typeof entry === 'string' ? createClientFactory(wotGlobal, entry, options?.bindingConfig?.[entry]) : entry;
+      servient.addClientFactory(factory);
+      const scheme = typeof factory.getScheme === 'function' ? factory.getScheme() : undefined;
+      if (scheme && !registered.includes(scheme)) registered.push(scheme);
+    }
     sharedWot = await servient.start();
+    sharedServient = servient;
+    clientSchemes = orderSchemes(registered, options?.preferredSchemes);
   } else if (typeof wotGlobal.consume === 'function') {
     sharedWot = wotGlobal;
+    sharedServient = null;
+    clientSchemes = [];
   } else {
-    throw new Error('Unsupported WoT global shape: expected Core.Servient + HttpClientFactory or consume().');
+    throw new Error('Unsupported WoT global shape: expected Core.Servient + client factories or consume().');
   }
 
+  credentialProvider = options?.credentials;
+  tdValidation = options?.validateTds !== false;
+  if (credentialProvider && !sharedServient) console.warn('[ui-wot][initializeWot] credentials require a Servient; they are ignored for this WoT global');
+
+  // Things consumed by a previous instance are bound to its clients
+  thingCache.clear();
+  pendingThings.clear();
   return { wot: sharedWot };
 }
 
+/**
+ * Apply the options of an `initializeWot()` call that reuses the existing instance, e.g. one created implicitly by a
+ * connect call. Credentials, TD validation and scheme order take effect for Things consumed from now on; options
+ * that need a new Servient are reported as ignored.
+ */
+function applyToExistingWot(options?: InitializeWotOptions): void {
+  if (!options) return;
+  if (options.credentials) {
+    const current = credentialProvider;
+    // Static credentials are merged; a callback replaces what was there
+    credentialProvider = current && typeof current !== 'function' && typeof options.credentials !== 'function' ? { ...current, ...options.credentials } : options.credentials;
+    if (!sharedServient) console.warn('[ui-wot][initializeWot] credentials require a Servient; they are ignored for this WoT global');
+  }
+  if (options.validateTds !== undefined) tdValidation = options.validateTds;
+  if (options.preferredSchemes) clientSchemes = orderSchemes(clientSchemes, options.preferredSchemes);
+  const ignored = (['clientFactories', 'bindingConfig', 'simulate'] as const).filter(key => options[key] !== undefined);
+  if (ignored.length) {
+    console.warn(`[ui-wot][initializeWot] WoT is already initialized, ${ignored.join(', ')} ignored; pass reuseExisting: false to apply them`);
+  }
+}
+
 /** Common misspelling safety*/
 export const initiliseWot = initializeWot;
 
-/** Fetch and consume a TD, if cache available if not then use url */
-async function ensureThing(thingDescriptionUrl: string): Promise<any> {
-  if (thingCache.has(thingDescriptionUrl)) return thingCache.get(thingDescriptionUrl);
-  if (!sharedWot) await initializeWot();
-  const response = await fetch(thingDescriptionUrl);
+/** Check whether a URL has the origin of the page. */
+function isSameOrigin(url: string): boolean {
+  try {
+    return new URL(url, document.baseURI).origin === new URL(document.baseURI).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch a TD, sending the known ETag so an unchanged TD can be answered with 304.
+ * The ETag is sent to the page origin only: cross-origin, the header needs a CORS preflight many TD servers reject.
+ */
+async function fetchThingDescription(url: string, etag?: string): Promise<{ td?: ThingDescription; etag?: string }> {
+  const conditional = etag && isSameOrigin(url);
+  const response = await fetch(url, conditional ? { headers: { 'If-None-Match': etag } } : undefined);
+  if (response.status === 304) return { etag };
   if (!response.ok) throw new Error(`Failed to fetch TD: ${response.status} ${response.statusText}`);
-  const td = await response.json();
-  const thing = await (sharedWot as any).consume(td);
-  thingCache.set(thingDescriptionUrl, thing);
-  return thing;
+  return { td: await response.json(), etag: response.headers.get('ETag') ?? undefined };
+}
+
+/** List the security schemes a TD requires, resolved from `security` and `securityDefinitions`. */
+function getSecuritySchemes(td: ThingDescription): CredentialRequest['schemes'] {
+  const names: string[] = Array.isArray(td?.security) ? td.security : td?.security ? [td.security] : [];
+  return names.map(name => ({ ...(td.securityDefinitions?.[name] ?? {}), name, scheme: td.securityDefinitions?.[name]?.scheme ?? 'nosec' }));
+}
+
+/** Resolve credentials for a protected TD and register them on the Servient, which must happen before consume(). */
+async function applyCredentials(td: ThingDescription): Promise<void> {
+  if (!credentialProvider || !sharedServient) return;
+  const schemes = getSecuritySchemes(td).filter(entry => entry.scheme !== 'nosec');
+  if (!schemes.length) return;
+  const credentials =
+    typeof credentialProvider === 'function' ? await credentialProvider({ thingId: td.id, title: td.title, schemes }) : td.id ? credentialProvider[td.id] : undefined;
+  if (!credentials) return;
+  if (!td.id) {
+    console.warn('[ui-wot][credentials] TD has no id, credentials cannot be registered', { title: td.title });
+    return;
+  }
+  sharedServient.addCredentials({ [td.id]: credentials });
+}
+
+/** Status codes of the status texts in node-wot `Client error: <statusText>` / `Server error: <statusText>` messages */
+const STATUS_TEXTS: Record<string, number> = {
+  'bad request': 400,
+  'unauthorized': 401,
+  'forbidden': 403,
+  'not found': 404,
+  'method not allowed': 405,
+  'conflict': 409,
+  'unprocessable entity': 422,
+  'internal server error': 500,
+  'bad gateway': 502,
+  'service unavailable': 503,
+  'gateway timeout': 504,
+};
+
+/**
+ * Status code of a failed interaction: a numeric `status` / `statusCode` of the error, else the code named by the
+ * error messages of node-wot clients (`Client error: Unauthorized`, `Server error: ...`, `HttpClient received 401 ...`).
+ */
+function getErrorStatus(err: any): number | undefined {
+  const code = err?.status ?? err?.statusCode ?? err?.response?.status;
+  if (typeof code === 'number') return code;
+  const message = String(err?.message ?? '');
+  const received = message.match(/^HttpClient received (\d{3})\b/);
+  if (received) return Number(received[1]);
+  const answered = message.match(/^(Client|Server) error: (.*)$/i);
+  if (answered) return STATUS_TEXTS[answered[2].trim().toLowerCase()] ?? (answered[1].toLowerCase() === 'client' ? 400 : 500);
+  return undefined;
+}
+
+/**
+ * Check whether retrying an interaction cannot succeed: the Thing answered with a client error other than an auth
+ * or rate limit one, or the operation is not supported, e.g. observing a property over a protocol without observe.
+ */
+function isPermanentError(err: any): boolean {
+  const status = getErrorStatus(err);
+  if (status !== undefined) return (status >= 400 && status < 500 && ![401, 403, 408, 429].includes(status)) || status === 501;
+  return err?.name === 'NotSupportedError' || /\bnot (supported|implemented)\b/i.test(String(err?.message ?? ''));
+}
+
+/** Check whether an interaction failed because credentials were missing or rejected. */
+function isAuthError(err: any): boolean {
+  const status = getErrorStatus(err);
+  return status === 401 || status === 403 || err?.name === 'NotAllowedError';
+}
+
+/** Error codes of sockets and fetch failures that mean no answer came back */
+const TRANSPORT_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Check whether an interaction failed in transport: no answer, a network error or a timeout. A gateway answering
+ * 502 or 504 for the device counts; any other status means the device itself answered.
+ */
+function isTransportError(err: any): boolean {
+  const status = getErrorStatus(err);
+  if (status !== undefined) return status === 502 || status === 504;
+  if (['NetworkError', 'TimeoutError', 'AbortError'].includes(err?.name)) return true;
+  if (TRANSPORT_ERROR_CODES.includes(err?.code ?? err?.cause?.code)) return true;
+  // fetch() rejects with a TypeError worded differently per runtime
+  return /\b(failed to fetch|fetch failed|network ?error|load failed|timed out|socket hang up)\b/i.test(String(err?.message ?? ''));
+}
+
+/**
+ * Check whether an interaction failed for a reason unrelated to the connection: an operation the protocol does not
+ * support, missing credentials or a payload that cannot be decoded.
+ */
+function isApplicationError(err: any): boolean {
+  if (getErrorStatus(err) === undefined && isPermanentError(err)) return true;
+  return ['NotAllowedError', 'NotReadableError', 'SyntaxError', 'DataSchemaError'].includes(err?.name);
+}
+
+/** Turn an interaction failure into an error with a message suitable for the component status badge. */
+function toInteractionError(err: any): Error {
+  if (isAuthError(err)) return new Error(`Authentication failed: ${err?.message ?? String(err)}`);
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+/** Detail of the `ui-wot:td-invalid` event, dispatched on document when a TD is rejected. */
+export type TdValidationFailure = { source: string | ThingDescription; title?: string; issues: TdIssue[] };
+
+/** Number of issues quoted in the error message of a rejected TD */
+const QUOTED_TD_ISSUES = 3;
+
+/**
+ * Validate a TD before it is consumed. Warnings are logged; errors reject the TD with a message quoting the first
+ * issues, and the full list is dispatched as `ui-wot:td-invalid` on document.
+ */
+function checkThingDescription(source: string | ThingDescription, td: ThingDescription): void {
+  const { valid, issues } = validateThingDescription(td, { retrievalUrl: typeof source === 'string' ? source : undefined });
+  const label = typeof source === 'string' ? source : (td?.title ?? td?.id ?? 'inline TD');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  if (warnings.length) console.warn(`[ui-wot][td] ${label}: ${formatSchemaIssues(warnings)}`);
+  if (valid) return;
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  document.dispatchEvent(new CustomEvent<TdValidationFailure>('ui-wot:td-invalid', { detail: { source, title: td?.title, issues } }));
+  const more = errors.length > QUOTED_TD_ISSUES ? ` (and ${errors.length - QUOTED_TD_ISSUES} more)` : '';
+  throw new Error(`Invalid Thing Description ${label}: ${formatSchemaIssues(errors.slice(0, QUOTED_TD_ISSUES))}${more}`);
+}
+
+/** Normalize the `simulate` option. */
+function toSimulatorOptions(simulate: true | SimulatorOptions): SimulatorOptions {
+  return simulate === true ? {} : simulate;
+}
+
+/**
+ * Consume a TD with the shared WoT instance after validating it, or a simulator for simulated sources, and build its cache entry.
+ * Simulated Things need no forms, so only TDs consumed by node-wot are validated, whether simulated globally or per binding.
+ */
+async function consumeThing(source: string | ThingDescription, td: ThingDescription, etag?: string): Promise<CachedThing> {
+  const simulation = simulatedSources.get(source) || globalSimulation;
+  if (simulation) return { thing: createSimulatedThing(td, simulation), td, snapshot: JSON.stringify(td), etag };
+  if (tdValidation) checkThingDescription(source, td);
+  if (!sharedWot) await initializeWot();
+  await applyCredentials(td);
+  // Relative hrefs of a fetched TD without base resolve against the URL it was retrieved from (RFC 3986)
+  const consumable = typeof source === 'string' && td.base === undefined ? { ...td, base: source } : td;
+  const thing = await (sharedWot as any).consume(consumable);
+  return { thing, td, snapshot: JSON.stringify(td), etag };
+}
+
+/**
+ * Fetch (for URLs) and consume a TD, reusing the cached Thing when available.
+ *
+ * @param td - Inline TD object passed by the caller, consumed instead of the canonical object keying it
+ */
+async function ensureThing(source: string | ThingDescription, td?: ThingDescription): Promise<any> {
+  if (thingCache.has(source)) return thingCache.get(source).thing;
+  if (pendingThings.has(source)) return pendingThings.get(source);
+  const pending = (async () => {
+    let entry: CachedThing;
+    if (typeof source === 'string') {
+      const { td, etag } = await fetchThingDescription(source);
+      entry = await consumeThing(source, td, etag);
+    } else {
+      entry = await consumeThing(source, td ?? source);
+    }
+    cacheThing(source, entry);
+    return entry.thing;
+  })();
+  pendingThings.set(source, pending);
+  try {
+    return await pending;
+  } finally {
+    pendingThings.delete(source);
+  }
+}
+
+/**
+ * Consume the Thing of a TD URL or inline TD, reusing the cached Thing when available.
+ * Useful to show loading and error states before connecting elements.
+ */
+export async function loadThing(target: ThingTarget): Promise<any> {
+  return ensureThing(resolveThingSource(target, 'loadThing'), target.td);
+}
+
+/** Store a consumed Thing in the cache and remember its source. */
+function cacheThing(source: string | ThingDescription, entry: CachedThing): void {
+  thingCache.set(source, entry);
+  thingSources.set(entry.thing, source);
+}
+
+/**
+ * Record the outcome of an interaction with a Thing. A state change pushes `connected` into every element
+ * bound to the Thing and dispatches `ui-wot:thing-online` or `ui-wot:thing-offline` on document.
+ * An error status the device answered with (auth, validation, server errors) shows it is reachable, and
+ * application-level failures (see `isApplicationError()`) do not count. Every other failure marks the Thing
+ * offline: transport errors, and dropped observations and subscriptions, which often report a bare error `Event`.
+ */
+function reportReachability(thing: any, succeeded: boolean, err?: any): void {
+  const source = thingSources.get(thing);
+  if (source === undefined) return;
+  const answered = getErrorStatus(err) !== undefined && !isTransportError(err);
+  if (!succeeded && !answered && isApplicationError(err)) return;
+  const reachable = succeeded || answered;
+  const td = thingCache.get(source)?.td;
+  const status: ThingStatus = thingStatuses.get(source) ?? { source, thingId: td?.id, title: td?.title, state: 'unknown', since: Date.now() };
+  thingStatuses.set(source, status);
+  if (reachable) {
+    status.lastSeen = Date.now();
+    status.lastError = undefined;
+  } else {
+    status.lastError = String(err?.message ?? err);
+  }
+
+  const state: ThingConnectionState = reachable ? 'online' : 'offline';
+  if (status.state === state) return;
+  status.state = state;
+  status.since = Date.now();
+  for (const binding of bindings) {
+    if (binding.source === source) setConnected(binding.element, reachable);
+  }
+  document.dispatchEvent(new CustomEvent<ThingStatus>(`ui-wot:thing-${state}`, { detail: { ...status } }));
+  if (reachable) void replayWrites(source);
+}
+
+/** Get the connection status of a Thing by its TD URL or inline TD object. */
+export function getThingStatus(source: string | ThingDescription): ThingStatus | undefined {
+  const status = thingStatuses.get(toSourceKey(source));
+  return status ? { ...status } : undefined;
+}
+
+/** Get the connection status of every Thing that has been interacted with, e.g. for a fleet health banner. */
+export function getThingStatuses(): ThingStatus[] {
+  return Array.from(thingStatuses.values()).map(status => ({ ...status }));
+}
+
+/** Register an element binding and return the cleanup that removes it. */
+async function trackBinding(element: HTMLElement, kind: BindingKind, source: string | ThingDescription, thing: any, bind: (thing: any) => Promise<Cleanup>): Promise<Cleanup> {
+  const binding: Binding = { element, kind, source, bind, stop: await bind(thing) };
+  bindings.add(binding);
+  const state = thingStatuses.get(source)?.state;
+  if (state && state !== 'unknown') setConnected(element, state === 'online');
+  return () => {
+    bindings.delete(binding);
+    return binding.stop();
+  };
 }
 
-/** Normalize output if there is functions instead of value */
-async function readOutputValue(output: any): Promise<any> {
-  if (output && typeof output.value === 'function') return output.value();
-  return output;
+/** Names of the affordances of a TD by kind. */
+export type AffordanceNames = { properties: string[]; actions: string[]; events: string[] };
+
+/** Describes how a Thing Description changed; dispatched as `ui-wot:thing-changed` on document. */
+export type ThingChange = {
+  /** TD URL or inline TD object the Thing was bound with */
+  source: string | ThingDescription;
+  /** Thing id of the new TD (if any) */
+  thingId?: string;
+  added: AffordanceNames;
+  removed: AffordanceNames;
+  /** Affordances whose definition (schema, forms, ...) changed */
+  changed: AffordanceNames;
+  /** True when top-level TD members such as `base`, `security` or `modified` changed */
+  metadataChanged: boolean;
+};
+
+/** Compare two TD versions affordance by affordance. */
+function diffThingDescriptions(source: string | ThingDescription, prev: ThingDescription, next: ThingDescription): ThingChange {
+  const change: ThingChange = {
+    source,
+    thingId: next?.id,
+    added: { properties: [], actions: [], events: [] },
+    removed: { properties: [], actions: [], events: [] },
+    changed: { properties: [], actions: [], events: [] },
+    metadataChanged: false,
+  };
+  const kinds: AffordanceKind[] = ['properties', 'actions', 'events'];
+  for (const kind of kinds) {
+    const before = prev?.[kind] ?? {};
+    const after = next?.[kind] ?? {};
+    for (const name of Object.keys(after)) {
+      if (!(name in before)) change.added[kind].push(name);
+      else if (JSON.stringify(before[name]) !== JSON.stringify(after[name])) change.changed[kind].push(name);
+    }
+    for (const name of Object.keys(before)) {
+      if (!(name in after)) change.removed[kind].push(name);
+    }
+  }
+  const strip = (td: ThingDescription) => JSON.stringify({ ...td, properties: undefined, actions: undefined, events: undefined });
+  change.metadataChanged = strip(prev) !== strip(next);
+  return change;
+}
+
+/** Re-create every binding of a source (or those matching `filter`) against its new Thing, dropping bindings of detached elements. */
+async function rebindThing(source: string | ThingDescription, thing: any, filter?: (binding: Binding) => boolean): Promise<void> {
+  for (const binding of Array.from(bindings)) {
+    if (binding.source !== source || (filter && !filter(binding))) continue;
+    try {
+      await binding.stop();
+    } catch {}
+    if (!binding.element.isConnected) {
+      bindings.delete(binding);
+      continue;
+    }
+    try {
+      binding.stop = await binding.bind(thing);
+    } catch (err) {
+      bindings.delete(binding);
+      console.warn('[ui-wot][rebindThing] re-binding failed', { kind: binding.kind, error: String(err) });
+    }
+  }
+}
+
+// Show bound values in the newly preferred units; other bindings are left alone
+const followsUnitSystem = (binding: Binding) => binding.kind === 'property' && unitSystemElements.has(binding.element);
+subscribeUnitSystem(() => {
+  for (const [source, entry] of Array.from(thingCache)) void rebindThing(source, entry.thing, followsUnitSystem);
+});
+
+/**
+ * Drop a cached Thing so the next connect call consumes its TD again.
+ * Elements that are already bound keep their current Thing until `refreshThing()` is called.
+ *
+ * @returns true if a cached Thing was removed
+ */
+export function evictThing(source: string | ThingDescription): boolean {
+  const key = toSourceKey(source);
+  // The next connect call may bind it simulated or not
+  simulatedSources.delete(key);
+  // A TD object passed next becomes the new canonical object of its id
+  if (typeof key !== 'string' && inlineSources.get(inlineKeys.get(key)) === key) inlineSources.delete(inlineKeys.get(key));
+  return thingCache.delete(key);
+}
+
+/**
+ * Reload the TD of a Thing and re-bind its connected elements if the TD changed.
+ * URLs are fetched again (conditionally on the page origin, using the last ETag unless `force` is set); inline TD objects
+ * are compared with the version they were consumed from, so in-place edits are picked up, as is a new
+ * TD object with the same `id`.
+ * Dispatches `ui-wot:thing-changed` on document when a change was applied.
+ *
+ * @returns The change summary, or null when the TD is unchanged
+ */
+export async function refreshThing(target: string | ThingDescription, options?: { force?: boolean }): Promise<ThingChange | null> {
+  const source = toSourceKey(target);
+  const cached = thingCache.get(source);
+  let nextTd: ThingDescription | undefined;
+  let etag: string | undefined;
+  if (typeof source === 'string') {
+    const fetched = await fetchThingDescription(source, options?.force ? undefined : cached?.etag);
+    nextTd = fetched.td;
+    etag = fetched.etag;
+  } else {
+    nextTd = target as ThingDescription;
+  }
+  if (!nextTd) return null;
+
+  const snapshot = JSON.stringify(nextTd);
+  if (cached && !options?.force) {
+    // A changed `modified` settles it; otherwise the content decides, as many servers never update `modified`
+    const modifiedChanged = cached.td?.modified && nextTd.modified && cached.td.modified !== nextTd.modified;
+    if (!modifiedChanged && cached.snapshot === snapshot) {
+      if (etag) cached.etag = etag;
+      return null;
+    }
+  }
+
+  const change = diffThingDescriptions(source, cached ? JSON.parse(cached.snapshot) : {}, nextTd);
+  const entry = await consumeThing(source, nextTd, etag);
+  cacheThing(source, entry);
+  await rebindThing(source, entry.thing);
+  document.dispatchEvent(new CustomEvent<ThingChange>('ui-wot:thing-changed', { detail: change }));
+  return change;
+}
+
+/**
+ * Poll a TD URL for changes (via ETag and the TD `modified` field) and refresh the Thing when it changes.
+ *
+ * @returns Cleanup that stops watching
+ */
+export function watchThing(url: string, options?: { intervalMs?: number }): Cleanup {
+  unwatchThing(url);
+  const intervalMs = options?.intervalMs && options.intervalMs > 0 ? options.intervalMs : 30000;
+  const watcher: { timer?: ReturnType<typeof setTimeout> } = {};
+  // The next check is planned once the previous one finished, so slow fetches never overlap
+  const check = async () => {
+    try {
+      await refreshThing(url);
+    } catch (err) {
+      console.warn('[ui-wot][watchThing] TD refresh failed', { url, error: String(err) });
+    }
+    if (thingWatchers.get(url) === watcher) watcher.timer = setTimeout(check, intervalMs);
+  };
+  watcher.timer = setTimeout(check, intervalMs);
+  thingWatchers.set(url, watcher);
+  return () => {
+    if (thingWatchers.get(url) === watcher) unwatchThing(url);
+  };
+}
+
+/** Stop polling a TD URL started with `watchThing()`. */
+export function unwatchThing(url: string): void {
+  clearTimeout(thingWatchers.get(url)?.timer);
+  thingWatchers.delete(url);
+}
+
+/**
+ * Key of a TD source. Inline TDs are keyed by their `id` (or their content when they have none), so a TD literal
+ * built anew for every connect call shares the Thing consumed for the first one. Objects seen before keep their
+ * key even when edited in place, until it is evicted.
+ */
+function toSourceKey(source: string | ThingDescription): string | ThingDescription {
+  if (typeof source === 'string') return source;
+  const known = canonicalSources.get(source);
+  if (known && inlineSources.get(inlineKeys.get(known)) === known) return known;
+  const key = source.id ? `id:${source.id}` : `td:${JSON.stringify(source)}`;
+  if (!inlineSources.has(key)) {
+    inlineSources.set(key, source);
+    inlineKeys.set(source, key);
+  }
+  const canonical = inlineSources.get(key);
+  canonicalSources.set(source, canonical);
+  return canonical;
+}
+
+/**
+ * Pick the TD source of a connect call, preferring an inline TD over a URL, and remember whether it is simulated.
+ * The first binding of a source decides; a later one asking otherwise is rejected, since all bindings of a source
+ * share one Thing, until the source is evicted.
+ */
+function resolveThingSource(target: ThingTarget, caller: string): string | ThingDescription {
+  const source = target.td ? toSourceKey(target.td) : target.baseUrl;
+  if (!source) throw new Error(`[ui-wot][${caller}] either baseUrl or td is required`);
+  const simulation = target.simulate ? toSimulatorOptions(target.simulate) : false;
+  const bound = simulatedSources.get(source);
+  if (bound === undefined) simulatedSources.set(source, simulation);
+  else if ((bound === false) !== (simulation === false)) {
+    const label = typeof source === 'string' ? source : `inline TD "${source.title ?? source.id ?? 'untitled'}"`;
+    throw new Error(`[ui-wot][${caller}] ${label} is already bound ${bound ? 'simulated' : 'to the device'}; set simulate on all of its bindings or none, or evict it first`);
+  }
+  return source;
+}
+
+/** Read the TD embedded in a `<script type="application/td+json">` block with the given id. */
+export function resolveTdRef(ref: string, root: Document = document): ThingDescription {
+  const script = root.getElementById(ref);
+  if (!script || script.tagName !== 'SCRIPT' || script.getAttribute('type') !== 'application/td+json') {
+    throw new Error(`td-ref "${ref}" does not point to a <script type="application/td+json"> element`);
+  }
+  if (!embeddedTdCache.has(script)) {
+    try {
+      embeddedTdCache.set(script, JSON.parse(script.textContent || ''));
+    } catch (err) {
+      throw new Error(`td-ref "${ref}" contains invalid JSON: ${String(err)}`);
+    }
+  }
+  return embeddedTdCache.get(script);
+}
+
+/** Read `td-simulate`: present (or "true") for default settings, or simulator options as JSON. */
+function parseSimulateAttr(element: Element): boolean | SimulatorOptions | undefined {
+  if (!element.hasAttribute('td-simulate')) return undefined;
+  const value = getAttr(element, 'td-simulate') ?? '';
+  if (value === 'false') return undefined;
+  return value === '' || value === 'true' ? true : parseJsonAttr(value, 'td-simulate');
+}
+
+/** Resolve the Thing of an element from `td-ref`, `td-url`, or the connectAll defaults, and its `td-simulate` setting. */
+function resolveElementTarget(element: Element, defaults: ThingTarget): ThingTarget {
+  const ref = getAttr(element, 'td-ref');
+  const url = getAttr(element, 'td-url');
+  const target: ThingTarget = ref ? { td: resolveTdRef(ref, element.ownerDocument) } : url ? { baseUrl: url } : defaults;
+  const simulate = parseSimulateAttr(element);
+  return simulate ? { ...target, simulate } : target;
+}
+
+/** Push the link state into components that expose a `connected` prop. */
+function setConnected(component: any, connected: boolean): void {
+  if ('connected' in component && component.connected !== connected) component.connected = connected;
+}
+
+/** Identify the Thing of an interaction log record. */
+function describeThing(thing: any): Pick<InteractionRecord, 'thingUrl' | 'thingId' | 'thingTitle'> {
+  const source = thingSources.get(thing);
+  const td = getThingDescription(thing) ?? (source !== undefined ? thingCache.get(source)?.td : undefined);
+  return { thingUrl: typeof source === 'string' ? source : undefined, thingId: td?.id, thingTitle: td?.title };
+}
+
+/** Log an interaction of a consumed Thing. */
+function logInteraction(thing: any, operation: InteractionOperation, affordance: string | undefined, details: Partial<InteractionRecord> & { err?: any }): void {
+  const { err, ...rest } = details;
+  recordInteraction({
+    ts: Date.now(),
+    ...describeThing(thing),
+    operation,
+    affordance,
+    ok: err === undefined,
+    ...(err !== undefined ? { error: String(err?.message ?? err) } : {}),
+    ...rest,
+  });
+}
+
+/**
+ * Run a request/response interaction and log it with its latency.
+ * The payload is the request data, or taken from the result with `payloadOf`.
+ */
+async function traced<T>(
+  thing: any,
+  operation: InteractionOperation,
+  affordance: string | undefined,
+  run: () => Promise<T>,
+  payloadOf: (result?: T) => any = () => undefined,
+): Promise<T> {
+  const ts = Date.now();
+  try {
+    const result = await run();
+    logInteraction(thing, operation, affordance, { ts, latencyMs: Date.now() - ts, payload: payloadOf(result) });
+    return result;
+  } catch (err) {
+    logInteraction(thing, operation, affordance, { ts, latencyMs: Date.now() - ts, payload: payloadOf(), err });
+    throw err;
+  }
+}
+
+// Shared polls are logged once per request, however many elements take the value
+setPollTracer((thing, { operation, properties, value, err, ...timing }) =>
+  logInteraction(thing, operation, operation === 'readproperty' ? properties[0] : undefined, { ...timing, payload: operation === 'readproperty' ? value : properties, err }),
+);
+
+/** Turn a Blob into an object URL, revoking the URL previously created for the same slot. */
+function toObjectUrl(value: any, slot: { url?: string }): any {
+  if (!(value instanceof Blob)) return value;
+  if (slot.url) URL.revokeObjectURL(slot.url);
+  slot.url = URL.createObjectURL(value);
+  return slot.url;
+}
+
+/** Affordance collections of a Thing Description. */
+type AffordanceKind = 'properties' | 'actions' | 'events';
+
+/** Get the TD behind a consumed Thing, if the WoT implementation exposes it. */
+function getThingDescription(thing: any): any {
+  return typeof thing?.getThingDescription === 'function' ? thing.getThingDescription() : undefined;
+}
+
+/** Resolve the URI scheme of a form href, relative to the TD base. */
+function getFormScheme(href: string, base?: string): string | undefined {
+  try {
+    return new URL(href, base || document.baseURI).protocol.replace(/:$/, '');
+  } catch {
+    return undefined;
+  }
+}
+
+/** Operations of affordance forms without `op`, as defaulted by TD 1.1 */
+const DEFAULT_FORM_OPS: Record<AffordanceKind, string[]> = {
+  properties: ['readproperty', 'writeproperty'],
+  actions: ['invokeaction'],
+  events: ['subscribeevent', 'unsubscribeevent'],
+};
+
+/** Check whether a form declares the operation; forms without `op` use the TD defaults of their affordance kind, Thing-level forms have none. */
+function formSupportsOp(form: any, op: string, kind: AffordanceKind | 'thing'): boolean {
+  const ops = form?.op ?? (kind === 'thing' ? [] : DEFAULT_FORM_OPS[kind]);
+  return (Array.isArray(ops) ? ops : [ops]).includes(op);
+}
+
+/** Explicit choice of the form used for an affordance. */
+export type FormSelection = {
+  /** Index into the affordance `forms` */
+  formIndex?: number;
+  /** Use the first form with this content type (forms without one are `application/json`) */
+  contentType?: string;
+};
+
+/** Content type of a form, without parameters. */
+function getFormContentType(form: any): string {
+  return normalizeContentType(String(form?.contentType ?? 'application/json'));
+}
+
+/**
+ * Pick the form of an affordance: the explicitly selected one, else the first served by a registered client
+ * following the scheme order. Returns undefined to let node-wot choose its default form, and throws when the
+ * explicit selection matches no form supporting the operation.
+ */
+function selectFormIndex(thing: any, kind: AffordanceKind, name: string, op: string, selection?: FormSelection): number | undefined {
+  const td = getThingDescription(thing);
+  const forms: any[] = td?.[kind]?.[name]?.forms ?? [];
+  const label = `${kind.replace(/ies$/, 'y').replace(/s$/, '')} "${name}"`;
+
+  if (selection?.formIndex !== undefined) {
+    // Without a TD the index is passed through unchecked
+    if (!td) return selection.formIndex;
+    const form = forms[selection.formIndex];
+    if (!form) throw new Error(`[ui-wot] ${label} has no form ${selection.formIndex} (${forms.length} available)`);
+    if (!formSupportsOp(form, op, kind)) throw new Error(`[ui-wot] form ${selection.formIndex} of ${label} does not support ${op}`);
+    if (selection.contentType && getFormContentType(form) !== selection.contentType.toLowerCase()) {
+      throw new Error(`[ui-wot] form ${selection.formIndex} of ${label} is ${getFormContentType(form)}, not ${selection.contentType}`);
+    }
+    return selection.formIndex;
+  }
+
+  const candidates = forms.map((form, index) => ({ form, index })).filter(({ form }) => formSupportsOp(form, op, kind));
+  if (selection?.contentType) {
+    const contentType = selection.contentType.toLowerCase();
+    const matching = candidates.filter(({ form }) => getFormContentType(form) === contentType);
+    if (!matching.length) throw new Error(`[ui-wot] no form of ${label} supports ${op} with content type ${selection.contentType}`);
+    for (const scheme of clientSchemes) {
+      const match = matching.find(({ form }) => getFormScheme(form?.href, td?.base) === scheme);
+      if (match) return match.index;
+    }
+    return matching[0].index;
+  }
+
+  for (const scheme of clientSchemes) {
+    const match = candidates.find(({ form }) => getFormScheme(form?.href, td?.base) === scheme);
+    if (match) return match.index;
+  }
+  return undefined;
+}
+
+/** Index of the property form node-wot picks by default for an operation: the first supporting it, or -1. */
+function getDefaultFormIndex(thing: any, name: string, op: string): number {
+  const forms: any[] = getThingDescription(thing)?.properties?.[name]?.forms ?? [];
+  return forms.findIndex(form => formSupportsOp(form, op, 'properties'));
+}
+
+/** Check whether the selected form of a property is the one node-wot picks by default. */
+function isDefaultForm(thing: any, name: string, op: string, formIndex?: number): boolean {
+  return formIndex === undefined || getDefaultFormIndex(thing, name, op) === formIndex;
+}
+
+/** Select a form, keeping a selection error to be raised by the interaction that needs the form. */
+function selectForm(thing: any, kind: AffordanceKind, name: string, op: string, selection?: FormSelection): { formIndex?: number; error?: Error } {
+  try {
+    return { formIndex: selectFormIndex(thing, kind, name, op, selection) };
+  } catch (err) {
+    return { error: err };
+  }
+}
+
+/** node-wot interaction options. */
+type InteractionOptions = { formIndex?: number; uriVariables?: Record<string, any> };
+
+/** Build node-wot interaction options for a selected form and URI variables. */
+function toInteractionOptions(formIndex?: number, uriVariables?: Record<string, any>): InteractionOptions | undefined {
+  if (formIndex === undefined && uriVariables === undefined) return undefined;
+  return { ...(formIndex !== undefined ? { formIndex } : {}), ...(uriVariables !== undefined ? { uriVariables } : {}) };
+}
+
+/**
+ * Values of the `uriVariables` of an affordance, e.g. `{ unit: 'celsius' }` for `/temperature{?unit}`.
+ * A variable given as a component element is bound to it: its `getValue()` is read at each interaction.
+ */
+export type UriVariables = Record<string, any>;
+
+/** Resolve URI variables, reading the current value of bound components. */
+async function resolveUriVariables(variables?: UriVariables): Promise<Record<string, any> | undefined> {
+  if (!variables) return undefined;
+  const resolved: Record<string, any> = {};
+  for (const [name, value] of Object.entries(variables)) {
+    if (!(value instanceof HTMLElement)) {
+      resolved[name] = value;
+      continue;
+    }
+    const source: any = value;
+    if (typeof source.getValue !== 'function') throw new Error(`URI variable ${name} is bound to an element without getValue()`);
+    resolved[name] = await source.getValue();
+  }
+  return resolved;
+}
+
+/** Call `onChange` whenever a component bound to a URI variable emits a new value. */
+function watchUriVariables(variables: UriVariables | undefined, onChange: () => void): Cleanup {
+  const elements = Object.values(variables ?? {}).filter((value): value is HTMLElement => value instanceof HTMLElement);
+  const listener = (event: Event) => {
+    if ((event as CustomEvent).detail?.ok !== false) onChange();
+  };
+  elements.forEach(element => element.addEventListener('valueMsg', listener));
+  return () => elements.forEach(element => element.removeEventListener('valueMsg', listener));
 }
 
 /** Get the first non-null attribute. */
@@ -74,6 +957,22 @@ function getAttr(element: Element, ...names: string[]): string | null {
   return null;
 }
 
+/** Parse a JSON attribute value, naming the attribute in the error. */
+function parseJsonAttr(value: string, attribute: string): any {
+  try {
+    return JSON.parse(value);
+  } catch (err) {
+    throw new Error(`${attribute} contains invalid JSON: ${String(err)}`);
+  }
+}
+
+/** Find the element an attribute refers to by id. */
+function resolveElementRef(element: Element, id: string, attribute: string): HTMLElement {
+  const target = element.ownerDocument.getElementById(id);
+  if (!target) throw new Error(`${attribute} "${id}" does not match any element`);
+  return target;
+}
+
 /** Parse a string to a positive integer. */
 function parsePositiveInt(value?: string | null): number | undefined {
   if (!value) return undefined;
@@ -81,143 +980,707 @@ function parsePositiveInt(value?: string | null): number | undefined {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
 }
 
+/** Check whether the TD offers a Thing-level operation in its top-level forms. */
+function supportsThingOp(td: any, op: string): boolean {
+  return (td?.forms ?? []).some((form: any) => formSupportsOp(form, op, 'thing'));
+}
+
+/**
+ * Read the initial values of several properties with one request, when the TD advertises
+ * `readmultipleproperties` or `readallproperties`. The values are taken by the following binds;
+ * properties missing from the result, or a failed batch, fall back to their own `readProperty`.
+ *
+ * @returns Drops the values no bind took, so a later bind reads afresh
+ */
+function prefetchProperties(thing: any, names: string[]): Cleanup {
+  if (names.length < 2) return () => undefined;
+  const td = getThingDescription(thing);
+  let batch: Promise<any> | undefined;
+  if (supportsThingOp(td, 'readmultipleproperties') && typeof thing.readMultipleProperties === 'function') {
+    batch = traced(
+      thing,
+      'readmultipleproperties',
+      undefined,
+      () => thing.readMultipleProperties(names),
+      () => names,
+    );
+  } else if (supportsThingOp(td, 'readallproperties') && typeof thing.readAllProperties === 'function') {
+    batch = traced(
+      thing,
+      'readallproperties',
+      undefined,
+      () => thing.readAllProperties(),
+      () => names,
+    );
+  }
+  if (!batch) return () => undefined;
+
+  const pending = prefetchedValues.get(thing) ?? new Map<string, Promise<any>>();
+  const values = new Map<string, Promise<any>>();
+  for (const name of names) {
+    const value = batch.then(async result => {
+      const output = result instanceof Map ? result.get(name) : result?.[name];
+      if (output === undefined) throw new Error(`${name} missing from batch read`);
+      return output;
+    });
+    // Unused values must not surface as unhandled rejections
+    value.catch(() => undefined);
+    pending.set(name, value);
+    values.set(name, value);
+  }
+  prefetchedValues.set(thing, pending);
+  return () => {
+    // Values of a later batch stay for their own pass
+    for (const [name, value] of values) {
+      if (pending.get(name) === value) pending.delete(name);
+    }
+  };
+}
+
+/**
+ * Read the initial value of a property, preferring a value prefetched in batch.
+ *
+ * @param batchable - Whether a batched value can stand in for a read of the selected form
+ */
+async function readInitialValue(thing: any, propertyName: string, batchable: boolean, readOptions?: InteractionOptions, decode?: DecodeOptions): Promise<any> {
+  const pending = prefetchedValues.get(thing);
+  // Batched values were read without URI variables
+  const prefetched = !batchable || readOptions?.uriVariables ? undefined : pending?.get(propertyName);
+  if (prefetched) {
+    pending.delete(propertyName);
+    try {
+      return await readOutputValue(await prefetched, decode);
+    } catch {}
+  }
+  return traced(
+    thing,
+    'readproperty',
+    propertyName,
+    async () => readOutputValue(await thing.readProperty(propertyName, readOptions), decode),
+    value => value,
+  );
+}
+
+/** Run tasks with at most `limit` of them in flight. */
+async function runWithConcurrency(tasks: Array<() => Promise<void>>, limit: number): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) await tasks[next++]();
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), tasks.length) }, worker));
+}
+
+/** Options of `connectProperty()`. */
+export type ConnectPropertyOptions<T = any> = ThingTarget &
+  FormSelection & {
+    name: string;
+    observe?: boolean;
+    strategy?: ObserveStrategy;
+    pollMs?: number;
+    /** Backoff used to resubscribe after an observation drops, or false to disable resubscription */
+    resubscribe?: BackoffOptions | false;
+    /** Configure min/max/step/readonly/label from the property DataSchema (default true) */
+    applySchema?: boolean;
+    /** Extra check run after schema validation; return false or an error message to reject the write */
+    validate?: WriteValidator<T>;
+    /** URI variables of the property forms; changing a bound component re-reads the property */
+    uriVariables?: UriVariables;
+    /** How values are handed to the component, by default chosen from the content type */
+    valueType?: ValueType;
+    /** Queue writes while the Thing is unreachable and replay them in order on reconnect */
+    offlineQueue?: boolean | OfflineQueueOptions;
+    /** Convert between device and display values: `setValue()` gets the display value, `writeProperty` the device value */
+    transform?: TransformSpec;
+    /** Unit to display values in, converted from the DataSchema `unit` (e.g. `°F`); overrides `unitSystem` */
+    unit?: string;
+    /** Unit system to display values in, instead of the one set with `setUnitSystem()` */
+    unitSystem?: UnitSystem;
+    /** Write a changing value only once it rested this long, e.g. while a slider is dragged */
+    writeDebounceMs?: number;
+    /** Write a changing value at most once per interval, always the latest one */
+    writeThrottleMs?: number;
+  };
+
+/** Options of the offline write queue. */
+export type OfflineQueueOptions = {
+  /** Write queued values even when the device value changed while offline (default false: report a conflict) */
+  overwriteConflicts?: boolean;
+  /** Backoff between replay attempts while no other interaction reports the Thing back */
+  backoff?: BackoffOptions;
+};
+
+/** Detail of the `ui-wot:write-conflict` event, dispatched on the element whose queued write was not applied. */
+export type WriteConflict = {
+  source: string | ThingDescription;
+  propertyName: string;
+  /** Value the user wrote while offline */
+  value: any;
+  /** Device value the write was based on */
+  expected: any;
+  /** Device value found on reconnect */
+  current: any;
+};
+
+/** User check of a value before it is written; false or a message rejects it. */
+export type WriteValidator<T = any> = (value: T) => boolean | string | void | Promise<boolean | string | void>;
+
+/**
+ * Check a value against the property DataSchema, and the value the component produced (before any transform)
+ * against the user validator.
+ * @returns The error message, or undefined when the value may be written
+ */
+async function validateWrite(value: any, schema: any, validate?: WriteValidator, displayValue: any = value): Promise<string | undefined> {
+  const issues = validateAgainstSchema(value, schema);
+  if (issues.length) return formatSchemaIssues(issues);
+  if (!validate) return undefined;
+  try {
+    const verdict = await validate(displayValue);
+    if (verdict === false) return 'rejected by validator';
+    if (typeof verdict === 'string' && verdict) return verdict;
+  } catch (err) {
+    return err?.message || String(err);
+  }
+  return undefined;
+}
+
+/** Emit a failed `valueMsg` from a component, in the same shape as its own events. */
+function emitWriteFailure(element: HTMLElement, value: any, message: string): void {
+  element.dispatchEvent(
+    new CustomEvent('valueMsg', {
+      bubbles: true,
+      composed: true,
+      cancelable: true,
+      detail: { newVal: value, ts: Date.now(), source: element.id || element.tagName.toLowerCase(), ok: false, error: { code: 'VALIDATION', message } },
+    }),
+  );
+}
+
+/** Component props derived from a property DataSchema, with the attribute that overrides each. */
+const SCHEMA_PROPS: Array<{ prop: string; attribute: string; from: (schema: any, component: any) => any }> = [
+  { prop: 'min', attribute: 'min', from: schema => (isNumericSchema(schema) ? (schema.minimum ?? stepInside(schema, schema.exclusiveMinimum, 1)) : undefined) },
+  { prop: 'max', attribute: 'max', from: schema => (isNumericSchema(schema) ? (schema.maximum ?? stepInside(schema, schema.exclusiveMaximum, -1)) : undefined) },
+  { prop: 'step', attribute: 'step', from: schema => (isNumericSchema(schema) ? schema.multipleOf : undefined) },
+  { prop: 'readonly', attribute: 'readonly', from: schema => (typeof schema.readOnly === 'boolean' ? schema.readOnly : undefined) },
+  { prop: 'unit', attribute: 'unit', from: schema => formatUnit(schema.unit) },
+  // Components showing the unit next to the value keep it out of the label
+  {
+    prop: 'label',
+    attribute: 'label',
+    from: (schema, component) => (schema.title ? (schema.unit && !('unit' in component) ? `${schema.title} (${formatUnit(schema.unit)})` : schema.title) : undefined),
+  },
+];
+
+/**
+ * Turn an exclusive bound into the nearest inclusive one a stepped control can reach: one `multipleOf` (or 1 for
+ * integers) inside it. Without a step there is no such value, and no bound is derived.
+ */
+function stepInside(schema: any, bound: any, direction: 1 | -1): number | undefined {
+  if (typeof bound !== 'number') return undefined;
+  const step = schema.multipleOf > 0 ? schema.multipleOf : schema.type === 'integer' ? 1 : undefined;
+  if (!step) return undefined;
+  // The next multiple of the step strictly beyond the bound; rounding drops float noise such as 0.3 / 0.1 = 2.9999999999999996
+  const ratio = Number((bound / step).toPrecision(12));
+  const next = direction > 0 ? Math.floor(ratio + 1) * step : Math.ceil(ratio - 1) * step;
+  return Number(next.toPrecision(12));
+}
+
+/** Check whether a DataSchema describes a number. */
+function isNumericSchema(schema: any): boolean {
+  return schema.type === 'number' || schema.type === 'integer';
+}
+
+/**
+ * Apply the property DataSchema to the component props it supports.
+ * Attributes set in markup take precedence and are left untouched.
+ */
+function applyDataSchema(element: HTMLElement, schema: any): void {
+  if (!schema || typeof schema !== 'object') return;
+  const component: any = element as any;
+  for (const { prop, attribute, from } of SCHEMA_PROPS) {
+    if (!(prop in component) || element.hasAttribute(attribute)) continue;
+    const value = from(schema, component);
+    if (value !== undefined && component[prop] !== value) component[prop] = value;
+  }
+}
+
 /**
  * Connect a property element to a WoT Thing property.
  * - Sets initial value (if available) and links a write operation.
- * - Optional continuous updates via observe, poll, or auto strategy.
+ * - Optional continuous updates via observe, poll, or auto strategy; polls are shared per Thing and interval.
+ * - Takes min/max/step/readonly/label from the property DataSchema unless set in markup.
+ * - Validates writes against the DataSchema and the optional `validate` hook; rejected values never reach the device.
+ * - Decodes values by content type: text as string, images as object URLs, other binary as `ArrayBuffer` (see `valueType`).
+ * - With `transform`, converts values between device and display units in both directions (see `TransformStep`).
+ * - Converts values with a known DataSchema `unit` to `unit`, or to the preferred unit system (see `setUnitSystem()`).
+ * - Passes `uriVariables` to every interaction, e.g. `{ unit: unitSelect }` re-reads the property when the selector changes.
+ * - With `offlineQueue`, writes failing because the Thing is unreachable are kept (status `pending`) and replayed
+ *   in order on reconnect; a write whose property changed on the device meanwhile raises `ui-wot:write-conflict`.
+ *   The queued value stays shown until its replay settled, instead of the device value read on reconnect.
+ * - Sends one write at a time and the last value wins: values superseded before or while being sent are dropped, and
+ *   reads started before the latest write settled are not shown. `writeDebounceMs` / `writeThrottleMs` combine rapid changes.
+ *   A superseded write already in flight is not cancelled, only its response is ignored; it resolves with status `loading`.
+ * - The binding is re-created when the Thing is refreshed with a changed TD.
  *
+ * The element should implement `WotPropertyBindable<T>`; `T` is inferred from its `setValue()`.
  */
-export async function connectProperty(
-  element: HTMLElement,
-  options: { baseUrl: string; name: string; observe?: boolean; strategy?: ObserveStrategy; pollMs?: number },
-): Promise<Cleanup> {
+export async function connectProperty<T = any>(element: HTMLElement & Partial<WotPropertyBindable<T>>, options: ConnectPropertyOptions<T>): Promise<Cleanup> {
+  const source = resolveThingSource(options, 'connectProperty');
+  const thing = await ensureThing(source, options.td);
+  return trackBinding(element, 'property', source, thing, next => bindProperty(element, next, options));
+}
+
+/** Bind a property element to a consumed Thing. */
+async function bindProperty(element: HTMLElement, thing: any, options: ConnectPropertyOptions): Promise<Cleanup> {
   const component: any = element as any;
-  const { baseUrl: thingUrl, name: propertyName } = options;
+  const { name: propertyName } = options;
 
   const strategy: ObserveStrategy | undefined = options.strategy ?? (options.observe === false ? 'poll' : undefined);
   const pollMs = Number.isFinite(options.pollMs as any) && (options.pollMs as number) > 0 ? (options.pollMs as number) : 3000;
-  const thing = await ensureThing(thingUrl);
+
+  const schema = getThingDescription(thing)?.properties?.[propertyName];
+  const convertTo = options.unit ?? getPreferredUnit(schema?.unit, options.unitSystem ?? getUnitSystem())?.symbol;
+  // Only values in a unit with a counterpart in another system change with the page unit system
+  if (!options.unit && !options.unitSystem && hasUnitCounterpart(schema?.unit)) unitSystemElements.add(element);
+  else unitSystemElements.delete(element);
+  const transform = compileTransform(options.transform, schema, convertTo);
+  const toDisplay = (value: any) => (transform ? transform.read(value) : value);
+  // Components see bounds and unit in display units
+  if (options.applySchema !== false) applyDataSchema(element, transformSchema(schema, transform));
+
+  // A selected form may only serve some operations; the others fail when used
+  const readForm = selectForm(thing, 'properties', propertyName, 'readproperty', options);
+  const writeForm = selectForm(thing, 'properties', propertyName, 'writeproperty', options);
+  const observeForm = selectForm(thing, 'properties', propertyName, 'observeproperty', options);
+  if (readForm.error && writeForm.error) throw readForm.error;
+  // Observe only what the TD marks observable; without a TD it is tried, and polling covers a rejection
+  const autoObserve = (schema ? schema.observable === true : true) && typeof thing.observeProperty === 'function' && !observeForm.error;
+  // A strategy that cannot work fails the bind before anything is read or registered
+  if (strategy === 'observe') {
+    if (typeof thing.observeProperty !== 'function') throw new Error('observeProperty not supported for ' + propertyName);
+    if (observeForm.error) throw observeForm.error;
+  } else if ((strategy === 'poll' || (strategy === 'auto' && !autoObserve)) && readForm.error) {
+    throw readForm.error;
+  }
+  const readFormIndex = readForm.formIndex;
+  const writeFormIndex = writeForm.formIndex;
+  const observeFormIndex = observeForm.formIndex;
+  // Batch reads go through the Thing-level form, so they stand in only for the default form and content type
+  const batchable = !options.contentType && isDefaultForm(thing, propertyName, 'readproperty', readFormIndex);
+  // Content type of the form the read goes to, for outputs that do not carry their form
+  const readForms: any[] | undefined = schema?.forms;
+  const readContentType = options.contentType ?? readForms?.[readFormIndex ?? getDefaultFormIndex(thing, propertyName, 'readproperty')]?.contentType;
+  const decodeOptions: DecodeOptions = { contentType: readContentType, valueType: options.valueType };
+  // Latest object URL handed to the component, revoked when replaced
+  const objectUrlSlot: { url?: string } = {};
+
+  // Options are built per interaction, as bound URI variables may change
+  const interactionOptions = async (formIndex?: number) => toInteractionOptions(formIndex, await resolveUriVariables(options.uriVariables));
+  const sendWrite = (next: any) =>
+    traced(
+      thing,
+      'writeproperty',
+      propertyName,
+      async () => thing.writeProperty(propertyName, next, await interactionOptions(writeFormIndex)),
+      () => next,
+    );
+
+  // Offline queue: writes made while the Thing is unreachable are replayed on reconnect
+  const queueOptions: OfflineQueueOptions | undefined = options.offlineQueue ? (options.offlineQueue === true ? {} : options.offlineQueue) : undefined;
+  const queueSource = thingSources.get(thing) ?? resolveThingSource(options, 'connectProperty');
+  // Last value known to be on the device, the base for conflict detection
+  let deviceValue: any;
+  // When a queued write of the property last settled
+  let queueSettledAt = 0;
+
+  const settleQueuedWrite = async (next: any, expected: any, outcome: QueuedWriteOutcome) => {
+    queueSettledAt = Date.now();
+    if (outcome.status === 'written') {
+      deviceValue = next;
+      await component.setStatus?.('success');
+    } else if (outcome.status === 'conflict') {
+      deviceValue = outcome.current;
+      const message = `Conflict: ${propertyName} changed on the device while offline, queued value not written`;
+      logInteraction(thing, 'writeproperty', propertyName, { payload: next, err: message });
+      await applyValue(outcome.current);
+      await component.setStatus?.('error', message);
+      const detail: WriteConflict = { source: queueSource, propertyName, value: next, expected, current: outcome.current };
+      element.dispatchEvent(new CustomEvent<WriteConflict>('ui-wot:write-conflict', { bubbles: true, composed: true, detail }));
+    } else if (outcome.status === 'failed') {
+      await component.setStatus?.('error', toInteractionError(outcome.error).message);
+    } else {
+      await component.setStatus?.('idle');
+    }
+  };
+
+  const queueWrite = (next: any) => {
+    const expected = getLastQueuedValue(queueSource, propertyName)?.value ?? deviceValue;
+    enqueueWrite(queueSource, {
+      propertyName,
+      value: next,
+      expected,
+      queuedAt: Date.now(),
+      // The conflict check before replaying is logged like any other read
+      read: () =>
+        traced(
+          thing,
+          'readproperty',
+          propertyName,
+          async () => readOutputValue(await thing.readProperty(propertyName, await interactionOptions(readFormIndex)), decodeOptions),
+          value => value,
+        ),
+      write: async () => {
+        await sendWrite(next);
+        reportReachability(thing, true);
+      },
+      isUnreachable: isTransportError,
+      overwriteConflicts: queueOptions.overwriteConflicts,
+      backoff: queueOptions.backoff,
+      onSettled: outcome => void settleQueuedWrite(next, expected, outcome),
+    });
+    // The component shows this instead of success for the resolved write
+    return new OperationOutcome('pending');
+  };
+
+  // Sends one write, queued while the Thing is unreachable
+  const deliverWrite = async (next: any) => {
+    // Keep the order of writes behind already queued ones
+    if (queueOptions && hasQueuedWrites(queueSource)) return queueWrite(next);
+    try {
+      const result = await sendWrite(next);
+      deviceValue = next;
+      reportReachability(thing, true);
+      return result;
+    } catch (err) {
+      reportReachability(thing, false, err);
+      if (queueOptions && isTransportError(err)) return queueWrite(next);
+      throw toInteractionError(err);
+    }
+  };
+  // Rapid changes, e.g. while dragging a slider, are combined and sent one at a time
+  const writes = createWriteScheduler(deliverWrite, { debounceMs: options.writeDebounceMs, throttleMs: options.writeThrottleMs });
+
+  // After a failed write the component reverts to its previous value, which may have been superseded unsent
+  const restoreDeviceValue = () =>
+    setTimeout(() => {
+      if (writes.isBusy() || deviceValue === undefined || typeof deviceValue === 'object') return;
+      void component.setValueSilent?.(toDisplay(deviceValue));
+    }, 0);
+
+  const writeOperation = async (value: any) => {
+    let next: any;
+    try {
+      next = transform ? transform.write(value) : value;
+    } catch (err) {
+      const message = `Invalid value for ${propertyName}: ${err?.message || String(err)}`;
+      emitWriteFailure(element, value, message);
+      throw new Error(message);
+    }
+    // Invalid values are rejected before any network round trip
+    const invalid = await validateWrite(next, schema, options.validate, value);
+    if (invalid) {
+      const message = `Invalid value for ${propertyName}: ${invalid}`;
+      emitWriteFailure(element, value, message);
+      throw new Error(message);
+    }
+    if (writeForm.error) throw writeForm.error;
+    let outcome: ScheduledWrite;
+    try {
+      outcome = await writes.schedule(next);
+    } catch (err) {
+      restoreDeviceValue();
+      throw err;
+    }
+    if (outcome.status === 'written') return outcome.result;
+    // The latest value is still being written; its own result shows the final status
+    return new OperationOutcome('loading');
+  };
 
   try {
-    const initialOut = await thing.readProperty(propertyName);
-    const initialValue = await readOutputValue(initialOut);
-    await component.setValue?.(initialValue, { writeOperation: async (next: any) => thing.writeProperty(propertyName, next) });
+    if (readForm.error) throw readForm.error;
+    const initialValue = await readInitialValue(thing, propertyName, batchable, await interactionOptions(readFormIndex), decodeOptions);
+    deviceValue = initialValue;
+    reportReachability(thing, true);
+    await component.setValue?.(toObjectUrl(toDisplay(initialValue), objectUrlSlot), { writeOperation });
   } catch (err) {
+    reportReachability(thing, false, err);
     console.warn('[ui-wot][connectProperty] initial read failed', { propertyName, error: String(err) });
     try {
       // Ensure write support even if the initial read fails
-      await component.setValue?.({}, { writeOperation: async (next: any) => thing.writeProperty(propertyName, next) });
+      await component.setValue?.({}, { writeOperation });
     } catch {}
+    if (isAuthError(err)) await component.setStatus?.('error', toInteractionError(err).message);
   }
 
-  const cleanups: Cleanup[] = [];
-  const startObserve = async () => {
-    const subscription = await thing.observeProperty(propertyName, async (data: any) => {
-      const value = await readOutputValue(data);
-      if (typeof component.setValueSilent === 'function') await component.setValueSilent(value);
-      else await component.setValue?.(value);
-    });
-    cleanups.push(() => subscription?.unsubscribe?.());
-    return true;
+  const cleanups: Cleanup[] = [
+    () => {
+      if (objectUrlSlot.url) URL.revokeObjectURL(objectUrlSlot.url);
+    },
+    // The last change of the user is still written
+    () => writes.flush(),
+  ];
+  // Queued writes keep their optimistic value until the replay settled them
+  const isQueueStale = (readStartedAt: number) => !!queueOptions && (getLastQueuedValue(queueSource, propertyName) !== undefined || readStartedAt <= queueSettledAt);
+  // Reads started before the latest write settled are not shown, so a late reply cannot undo that write
+  const applyValue = async (data: any, readStartedAt?: number) => {
+    const decoded = await readOutputValue(data, decodeOptions);
+    if (readStartedAt !== undefined && (writes.isStale(readStartedAt) || isQueueStale(readStartedAt))) return decoded;
+    deviceValue = decoded;
+    const value = toObjectUrl(toDisplay(decoded), objectUrlSlot);
+    if (typeof component.setValueSilent === 'function') await component.setValueSilent(value);
+    else await component.setValue?.(value);
+    return value;
   };
+  const onObserved = async (data: any) => {
+    logInteraction(thing, 'propertychange', propertyName, { payload: await applyValue(data, Date.now()) });
+  };
+
+  // Polls share one timer and request stream per Thing and interval
+  let unsubscribePoll: (() => void) | undefined;
   const startPoll = () => {
-    const timerId = setInterval(async () => {
+    if (unsubscribePoll) return;
+    unsubscribePoll = subscribePoll(thing, propertyName, pollMs, {
+      onValue: async (value, readStartedAt) => {
+        reportReachability(thing, true);
+        await applyValue(value, readStartedAt);
+      },
+      onError: err => {
+        reportReachability(thing, false, err);
+        if (isAuthError(err)) void component.setStatus?.('error', toInteractionError(err).message);
+      },
+      readOptions: toInteractionOptions(readFormIndex),
+      decode: output => readOutputValue(output, decodeOptions),
+      decodeKey: JSON.stringify(decodeOptions),
+      batch: batchable && supportsThingOp(getThingDescription(thing), 'readmultipleproperties'),
+      read: options.uriVariables ? async () => thing.readProperty(propertyName, await interactionOptions(readFormIndex)) : undefined,
+    });
+  };
+  const stopPoll = () => {
+    unsubscribePoll?.();
+    unsubscribePoll = undefined;
+  };
+  cleanups.push(stopPoll);
+
+  // Observe with resubscription; in 'auto' mode polling covers the gaps while observe is down.
+  let observeSupervisor: ReturnType<typeof superviseSubscription> | undefined;
+  const startObserve = async (fallbackToPoll: boolean) => {
+    const supervisor = superviseSubscription({
+      subscribe: async onError => thing.observeProperty(propertyName, onObserved, onError, await interactionOptions(observeFormIndex)),
+      onUp: () => {
+        if (fallbackToPoll) stopPoll();
+        reportReachability(thing, true);
+        logInteraction(thing, 'observeproperty', propertyName, {});
+      },
+      onDown: err => {
+        reportReachability(thing, false, err);
+        logInteraction(thing, 'observeproperty', propertyName, { err });
+        if (isAuthError(err) || (!fallbackToPoll && isPermanentError(err))) void component.setStatus?.('error', toInteractionError(err).message);
+        if (fallbackToPoll) startPoll();
+      },
+      backoff: options.resubscribe || undefined,
+      retry: options.resubscribe !== false,
+      // Not retried; in 'auto' mode polling carries on
+      isPermanent: isPermanentError,
+    });
+    observeSupervisor = supervisor;
+    cleanups.push(() => supervisor.stop());
+    return supervisor.start();
+  };
+
+  // A changed URI variable selects another resource: read it now and observe it instead
+  cleanups.push(
+    watchUriVariables(options.uriVariables, async () => {
+      try {
+        const output = await traced(thing, 'readproperty', propertyName, async () => thing.readProperty(propertyName, await interactionOptions(readFormIndex)));
+        reportReachability(thing, true);
+        await applyValue(output);
+      } catch (err) {
+        reportReachability(thing, false, err);
+        void component.setStatus?.('error', toInteractionError(err).message);
+      }
+      if (observeSupervisor?.isUp()) {
+        await observeSupervisor.stop();
+        await observeSupervisor.start();
+      }
+    }),
+  );
+
+  const stop = () => {
+    for (const fn of cleanups) {
       try {
-        const out = await thing.readProperty(propertyName);
-        const value = await readOutputValue(out);
-        if (typeof component.setValueSilent === 'function') await component.setValueSilent(value);
-        else await component.setValue?.(value);
+        void fn();
       } catch {}
-    }, pollMs);
-    cleanups.push(() => clearInterval(timerId));
+    }
   };
 
   if (strategy === 'observe') {
-    if (typeof thing.observeProperty !== 'function') throw new Error('observeProperty not supported for ' + propertyName);
-    await startObserve();
+    const isObserved = await startObserve(false);
+    if (!isObserved && options.resubscribe === false) {
+      stop();
+      throw new Error('observeProperty failed for ' + propertyName);
+    }
   } else if (strategy === 'poll') {
     startPoll();
   } else if (strategy === 'auto') {
-    let isObserved = false;
-    if (typeof thing.observeProperty === 'function') {
-      try {
-        isObserved = await startObserve();
-      } catch {
-        isObserved = false;
-      }
-    }
-    if (!isObserved) startPoll();
+    if (autoObserve) await startObserve(true);
+    else startPoll();
   } else {
   }
 
-  return () => {
-    for (const fn of cleanups) {
-      try {
-        fn();
-      } catch {}
-    }
+  return stop;
+}
+
+/** Options of `connectAction()`. */
+export type ConnectActionOptions = ThingTarget &
+  FormSelection & {
+    name: string;
+    /** Action input: a static value, or a function resolving it at click time */
+    input?: any;
+    /** Component whose `getValue()` supplies the action input at click time */
+    inputFrom?: HTMLElement;
+    /** Element that receives the action output through `setValue()` */
+    outputTarget?: HTMLElement;
+    /** URI variables of the action forms, resolved at each invocation */
+    uriVariables?: UriVariables;
   };
+
+/** Resolve the input of an action invocation: configured source first, then what the component passed. */
+async function resolveActionInput(options: ConnectActionOptions, componentInput?: any): Promise<any> {
+  if (options.inputFrom) {
+    const source: any = options.inputFrom;
+    if (typeof source.getValue !== 'function') throw new Error('Action input element has no getValue() method');
+    return source.getValue();
+  }
+  if (typeof options.input === 'function') return options.input();
+  if (options.input !== undefined) return options.input;
+  return componentInput;
 }
 
-/** Link a button component to invoke a WoT Thing action. */
-export async function connectAction(element: HTMLElement, options: { baseUrl: string; name: string }): Promise<void> {
+/** Show an action output in a target component; text components receive objects as formatted JSON. */
+async function showActionOutput(target: HTMLElement, value: any): Promise<void> {
+  const component: any = target as any;
+  const display = target.tagName === 'UI-TEXT' && value !== undefined && typeof value !== 'string' ? JSON.stringify(value, null, 2) : value;
+  if (typeof component.setValue === 'function') await component.setValue(display);
+  else target.textContent = display === undefined ? '' : String(display);
+}
+
+/** Link a button component (any `WotActionBindable`) to invoke a WoT Thing action. The returned cleanup unlinks the action. */
+export async function connectAction(element: HTMLElement & Partial<WotActionBindable>, options: ConnectActionOptions): Promise<Cleanup> {
+  const source = resolveThingSource(options, 'connectAction');
+  const thing = await ensureThing(source, options.td);
+  return trackBinding(element, 'action', source, thing, next => bindAction(element, next, options));
+}
+
+/** Bind a button element to a consumed Thing. */
+async function bindAction(element: HTMLElement, thing: any, options: ConnectActionOptions): Promise<Cleanup> {
   const component: any = element as any;
-  const { baseUrl: thingUrl, name: actionName } = options;
-  const thing = await ensureThing(thingUrl);
-  if (typeof component.setAction === 'function') {
-    await component.setAction(async (input?: any) => thing.invokeAction(actionName, input));
-  }
+  const { name: actionName } = options;
+  const invokeFormIndex = selectFormIndex(thing, 'actions', actionName, 'invokeaction', options);
+  if (typeof component.setAction !== 'function') return () => {};
+  const hasOutput = !!getThingDescription(thing)?.actions?.[actionName]?.output;
+  await component.setAction(async (componentInput?: any) => {
+    const input = await resolveActionInput(options, componentInput);
+    let output: any;
+    try {
+      output = await traced(
+        thing,
+        'invokeaction',
+        actionName,
+        async () => thing.invokeAction(actionName, input, toInteractionOptions(invokeFormIndex, await resolveUriVariables(options.uriVariables))),
+        () => input,
+      );
+      reportReachability(thing, true);
+    } catch (err) {
+      reportReachability(thing, false, err);
+      throw toInteractionError(err);
+    }
+    // Actions without an output schema have nothing to decode
+    const result = hasOutput || !getThingDescription(thing) ? await readOutputValue(output).catch(() => undefined) : undefined;
+    if (options.outputTarget) await showActionOutput(options.outputTarget, result);
+    return result;
+  });
+  return () => component.setAction(undefined);
+}
+
+/** Options of `connectEvent()`. */
+export type ConnectEventOptions = ThingTarget &
+  FormSelection & {
+    name: string;
+    /** Backoff used to resubscribe after the subscription drops, or false to disable resubscription */
+    resubscribe?: BackoffOptions | false;
+    /** URI variables of the event forms; changing a bound component renews the subscription */
+    uriVariables?: UriVariables;
+  };
+
+/** End an event subscription, falling back to older WoT APIs without `Subscription.unsubscribe()`. */
+async function endEventSubscription(thing: any, eventName: string, subscription: any, listener: (data: any) => void): Promise<void> {
+  try {
+    if (subscription && typeof subscription.unsubscribe === 'function') {
+      const ret = subscription.unsubscribe();
+      if (ret && typeof (ret as Promise<any>).then === 'function') await ret;
+    } else if (typeof thing.unsubscribeEvent === 'function') {
+      try {
+        await thing.unsubscribeEvent(eventName, listener);
+      } catch {
+        try {
+          await thing.unsubscribeEvent(eventName);
+        } catch {}
+      }
+    } else if (typeof thing.removeEventListener === 'function') {
+      try {
+        thing.removeEventListener(eventName, listener);
+      } catch {}
+    }
+  } catch {}
 }
 
 /**
- * Link an event component to a WoT Thing event.
+ * Link an event component (any `WotEventBindable<T>`) to a WoT Thing event.
  */
-export async function connectEvent(element: HTMLElement, options: { baseUrl: string; name: string }): Promise<Cleanup> {
+export async function connectEvent<T = any>(element: HTMLElement & Partial<WotEventBindable<T>>, options: ConnectEventOptions): Promise<Cleanup> {
+  const source = resolveThingSource(options, 'connectEvent');
+  const thing = await ensureThing(source, options.td);
+  return trackBinding(element, 'event', source, thing, next => bindEvent(element, next, options));
+}
+
+/** Bind an event element to a consumed Thing. */
+async function bindEvent(element: HTMLElement, thing: any, options: ConnectEventOptions): Promise<Cleanup> {
   const component: any = element as any;
-  const { baseUrl: thingUrl, name: eventName } = options;
-  const thing = await ensureThing(thingUrl);
+  const { name: eventName } = options;
+  const subscribeFormIndex = selectFormIndex(thing, 'events', eventName, 'subscribeevent', options);
 
-  let subscription: any | undefined;
-  let isSubscribed = false;
   let isPaused = true;
 
   const onEvent = async (data: any) => {
     if (isPaused) return;
     const value = await readOutputValue(data);
+    logInteraction(thing, 'event', eventName, { payload: value });
     component.addEvent?.(value);
   };
 
-  const subscribe = async () => {
-    if (isSubscribed) return;
-    if (typeof thing.subscribeEvent === 'function') {
-      subscription = await thing.subscribeEvent(eventName, onEvent);
-      isSubscribed = true;
-    }
-  };
+  const supervisor = superviseSubscription({
+    subscribe: async onError => {
+      const subscribeOptions = toInteractionOptions(subscribeFormIndex, await resolveUriVariables(options.uriVariables));
+      const subscription = await thing.subscribeEvent(eventName, onEvent, onError, subscribeOptions);
+      return { unsubscribe: () => endEventSubscription(thing, eventName, subscription, onEvent) };
+    },
+    onUp: () => {
+      reportReachability(thing, true);
+      logInteraction(thing, 'subscribeevent', eventName, {});
+    },
+    onDown: err => {
+      reportReachability(thing, false, err);
+      logInteraction(thing, 'subscribeevent', eventName, { err });
+      void component.setStatus?.('error', toInteractionError(err).message);
+    },
+    backoff: options.resubscribe || undefined,
+    retry: options.resubscribe !== false,
+    isPermanent: isPermanentError,
+  });
 
-  const unsubscribe = async () => {
-    if (!isSubscribed) return;
-    try {
-      if (subscription && typeof subscription.unsubscribe === 'function') {
-        const ret = subscription.unsubscribe();
-        if (ret && typeof (ret as Promise<any>).then === 'function') await ret;
-      } else if (typeof (thing as any).unsubscribeEvent === 'function') {
-        try {
-          await (thing as any).unsubscribeEvent(eventName, onEvent);
-        } catch {
-          try {
-            await (thing as any).unsubscribeEvent(eventName);
-          } catch {}
-        }
-      } else if (typeof (thing as any).removeEventListener === 'function') {
-        try {
-          (thing as any).removeEventListener(eventName, onEvent);
-        } catch {}
-      }
-    } catch {}
-    subscription = undefined;
-    isSubscribed = false;
+  const subscribe = async () => {
+    if (typeof thing.subscribeEvent === 'function') await supervisor.start();
   };
+  const unsubscribe = () => supervisor.stop();
 
   // Wrap component methods to control WoT subscription lifecycle.
   const localStartListening = typeof component.startListening === 'function' ? component.startListening.bind(component) : undefined;
@@ -238,74 +1701,417 @@ export async function connectEvent(element: HTMLElement, options: { baseUrl: str
   }
 
   // Do NOT auto-start; let the component/user trigger startListening.
+  // Only resume when the component is already listening, e.g. after a re-bind.
+  if (typeof component.isListening === 'function' && (await component.isListening())) {
+    isPaused = false;
+    await subscribe();
+  }
+
+  const stopWatchingVariables = watchUriVariables(options.uriVariables, async () => {
+    if (isPaused) return;
+    await supervisor.stop();
+    await subscribe();
+  });
+
   return () => {
     isPaused = true;
+    stopWatchingVariables();
     void unsubscribe();
     if (localStartListening) component.startListening = localStartListening;
     if (localStopListening) component.stopListening = localStopListening;
   };
 }
 
+/** Attribute selecting the affordance of an element, per binding kind. */
+const BINDING_ATTRIBUTES: Record<BindingKind, string> = { property: 'td-property', action: 'td-action', event: 'td-event' };
+
+/** Selector matching every element connectAll can bind. */
+const BINDABLE_SELECTOR = '[td-property],[td-action],[td-event]';
+
+/** Attributes whose change re-binds an element in watch mode. */
+const WATCHED_ATTRIBUTES = [
+  'td-property',
+  'td-action',
+  'td-event',
+  'td-url',
+  'td-ref',
+  'td-strategy',
+  'td-poll-ms',
+  'td-input',
+  'td-input-from',
+  'td-output',
+  'td-uri-variables',
+  'td-form-index',
+  'td-content-type',
+  'td-value-type',
+  'td-offline-queue',
+  'td-simulate',
+  'td-transform',
+  'td-unit',
+  'td-unit-system',
+  'td-write-debounce',
+  'td-write-throttle',
+];
+
+/** Read the unit system of an element from its own or the closest ancestor's `td-unit-system` attribute. */
+function parseUnitSystemAttr(element: Element): UnitSystem | undefined {
+  const value = getAttr(element.closest('[td-unit-system]') ?? element, 'td-unit-system');
+  if (value == null || value === '') return undefined;
+  if (value !== 'metric' && value !== 'imperial') throw new Error(`td-unit-system must be "metric" or "imperial", got "${value}"`);
+  return value;
+}
+
 /**
- * Connect all matching UI elements within a container to a Thing at `baseUrl`.
+ * Parse the `td-uri-variables` attribute: a JSON object of static values, where `{ "from": "<id>" }`
+ * binds a variable to the component with that id.
  */
-export async function connectAll(options: { baseUrl: string; container?: ParentNode }): Promise<Cleanup[]> {
-  const searchRoot = options.container || document;
-  const defaultThingUrl = options.baseUrl;
-  const cleanups: Cleanup[] = [];
-
-  // Properties
-  const propertyElements = Array.from(searchRoot.querySelectorAll<HTMLElement>('[td-property]'));
-  for (const element of propertyElements) {
-    const propertyName = getAttr(element, 'td-property');
-    if (!propertyName) continue;
-    const thingUrl = getAttr(element, 'td-url') || defaultThingUrl;
-    const anyElement: any = element as any;
-    if (typeof anyElement.setValue === 'function' || typeof anyElement.setValueSilent === 'function') {
-      try {
-        const strategyAttr = getAttr(element, 'td-strategy') as ObserveStrategy | null;
-        const pollMs = parsePositiveInt(getAttr(element, 'td-poll-ms'));
-        const stop = await connectProperty(element, {
-          baseUrl: thingUrl,
-          name: propertyName,
-          strategy: strategyAttr ?? undefined,
-          pollMs,
-        });
-        if (stop) cleanups.push(stop);
-      } catch (err) {
-        console.warn('[ui-wot][connectAll] property Link failed', { propertyName, error: String(err) });
-      }
+function parseUriVariablesAttr(element: Element): UriVariables | undefined {
+  const value = getAttr(element, 'td-uri-variables');
+  if (value == null) return undefined;
+  const parsed = parseJsonAttr(value, 'td-uri-variables');
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('td-uri-variables must be a JSON object');
+  const variables: UriVariables = {};
+  for (const [name, entry] of Object.entries<any>(parsed)) {
+    const isRef = entry && typeof entry === 'object' && typeof entry.from === 'string' && Object.keys(entry).length === 1;
+    variables[name] = isRef ? resolveElementRef(element, entry.from, 'td-uri-variables') : entry;
+  }
+  return variables;
+}
+
+/** Check whether an element belongs to a `<ui-thing>` nested inside the search root, which binds it itself. */
+function isOwnedByNestedThing(element: Element, root: ParentNode): boolean {
+  const owner = element.parentElement?.closest('ui-thing');
+  return !!owner && owner !== root && (root as Node).contains(owner);
+}
+
+/** Read the `td-form-index` / `td-content-type` attributes of an element. */
+function parseFormSelectionAttrs(element: Element): FormSelection {
+  const indexAttr = getAttr(element, 'td-form-index');
+  const contentType = getAttr(element, 'td-content-type') || undefined;
+  if (indexAttr == null) return { contentType };
+  const formIndex = Number(indexAttr);
+  if (!Number.isInteger(formIndex) || formIndex < 0) throw new Error(`td-form-index must be a non-negative integer, got "${indexAttr}"`);
+  return { formIndex, contentType };
+}
+
+/** Check whether an element implements `WotPropertyBindable`. */
+export function isPropertyBindable(element: Element): element is HTMLElement & WotPropertyBindable {
+  const candidate: any = element;
+  return typeof candidate?.setValue === 'function' || typeof candidate?.setValueSilent === 'function';
+}
+
+/** Check whether an element implements `WotActionBindable`. */
+export function isActionBindable(element: Element): element is HTMLElement & WotActionBindable {
+  return typeof (element as any)?.setAction === 'function';
+}
+
+/** Check whether an element implements `WotEventBindable`. */
+export function isEventBindable(element: Element): element is HTMLElement & WotEventBindable {
+  const candidate: any = element;
+  return typeof candidate?.startListening === 'function' && typeof candidate?.addEvent === 'function';
+}
+
+/** Contract checks and names per binding kind. */
+const BINDABLE_CONTRACTS: Record<BindingKind, { check: (element: Element) => boolean; name: string }> = {
+  property: { check: isPropertyBindable, name: 'WotPropertyBindable' },
+  action: { check: isActionBindable, name: 'WotActionBindable' },
+  event: { check: isEventBindable, name: 'WotEventBindable' },
+};
+
+/** How long connectAll waits for a custom element to be defined before checking its contract, by default */
+const DEFINITION_TIMEOUT_MS = 5000;
+
+/** Waits for custom element definitions per tag, settled once the tag is defined or the wait timed out */
+const definitionWaits = new Map<string, Promise<void>>();
+
+/**
+ * Wait until a custom element is upgraded, so elements defined after the scan (e.g. third-party widgets) are not skipped.
+ * Elements of one tag share the wait, and a tag that timed out is not waited for again.
+ */
+async function whenElementDefined(element: Element, timeoutMs: number): Promise<void> {
+  const tag = element.localName;
+  if (!tag.includes('-') || typeof customElements === 'undefined' || customElements.get(tag) || timeoutMs <= 0) return;
+  if (!definitionWaits.has(tag)) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>(resolve => (timer = setTimeout(resolve, timeoutMs)));
+    const settled = Promise.race([customElements.whenDefined(tag), timeout]).then(() => clearTimeout(timer));
+    definitionWaits.set(tag, settled);
+  }
+  await definitionWaits.get(tag);
+}
+
+/** Report an element that could not be linked, on the console and in the interaction log. */
+function reportLinkFailure(element: Element, kind: BindingKind, name: string, defaults: ThingTarget, err: any): void {
+  console.warn(`[ui-wot][connectAll] ${kind} Link failed`, { [`${kind}Name`]: name, error: String(err) });
+  recordInteraction({
+    ts: Date.now(),
+    thingUrl: getAttr(element, 'td-url') ?? defaults.baseUrl,
+    operation: 'connect',
+    affordance: name,
+    ok: false,
+    error: String(err?.message ?? err),
+  });
+}
+
+/** Connect one element for one binding kind from its td-* attributes. Resolves undefined when the element does not apply. */
+async function connectElement(element: HTMLElement, kind: BindingKind, defaults: ThingTarget, root: ParentNode, definitionTimeoutMs: number): Promise<Cleanup | undefined> {
+  const name = getAttr(element, BINDING_ATTRIBUTES[kind]);
+  if (!name || isOwnedByNestedThing(element, root)) return undefined;
+
+  await whenElementDefined(element, definitionTimeoutMs);
+  const contract = BINDABLE_CONTRACTS[kind];
+  if (!contract.check(element)) {
+    console.warn(`[ui-wot][connectAll] <${element.localName}> does not implement ${contract.name}, skipped`, { [BINDING_ATTRIBUTES[kind]]: name });
+    return undefined;
+  }
+
+  if (kind === 'property') {
+    try {
+      const strategyAttr = getAttr(element, 'td-strategy') as ObserveStrategy | null;
+      const pollMs = parsePositiveInt(getAttr(element, 'td-poll-ms'));
+      return await connectProperty(element, {
+        ...resolveElementTarget(element, defaults),
+        name,
+        strategy: strategyAttr ?? undefined,
+        pollMs,
+        uriVariables: parseUriVariablesAttr(element),
+        ...parseFormSelectionAttrs(element),
+        valueType: (getAttr(element, 'td-value-type') as ValueType | null) ?? undefined,
+        offlineQueue: element.hasAttribute('td-offline-queue') && getAttr(element, 'td-offline-queue') !== 'false',
+        transform: element.hasAttribute('td-transform') ? parseTransformAttr(getAttr(element, 'td-transform')) : undefined,
+        unit: getAttr(element, 'td-unit') ?? undefined,
+        unitSystem: parseUnitSystemAttr(element),
+        writeDebounceMs: parsePositiveInt(getAttr(element, 'td-write-debounce')),
+        writeThrottleMs: parsePositiveInt(getAttr(element, 'td-write-throttle')),
+      });
+    } catch (err) {
+      reportLinkFailure(element, kind, name, defaults, err);
+      return undefined;
     }
   }
 
-  // Actions
-  const actionElements = Array.from(searchRoot.querySelectorAll<HTMLElement>('[td-action]'));
-  for (const element of actionElements) {
-    const actionName = getAttr(element, 'td-action');
-    if (!actionName) continue;
-    const anyElement: any = element as any;
-    if (typeof anyElement.setAction === 'function') {
-      try {
-        const thingUrl = getAttr(element, 'td-url') || defaultThingUrl;
-        await connectAction(element, { baseUrl: thingUrl, name: actionName });
-      } catch {}
+  if (kind === 'action') {
+    try {
+      const inputAttr = getAttr(element, 'td-input');
+      const inputFromId = getAttr(element, 'td-input-from');
+      const outputId = getAttr(element, 'td-output');
+      return await connectAction(element, {
+        ...resolveElementTarget(element, defaults),
+        name,
+        input: inputAttr != null ? parseJsonAttr(inputAttr, 'td-input') : undefined,
+        inputFrom: inputFromId ? resolveElementRef(element, inputFromId, 'td-input-from') : undefined,
+        outputTarget: outputId ? resolveElementRef(element, outputId, 'td-output') : undefined,
+        uriVariables: parseUriVariablesAttr(element),
+        ...parseFormSelectionAttrs(element),
+      });
+    } catch (err) {
+      reportLinkFailure(element, kind, name, defaults, err);
+      return undefined;
     }
   }
 
-  // Events
-  const eventElements = Array.from(searchRoot.querySelectorAll<HTMLElement>('[td-event]'));
-  for (const element of eventElements) {
-    const eventName = getAttr(element, 'td-event');
-    if (!eventName) continue;
-    const anyElement: any = element as any;
-    if (typeof anyElement.startListening === 'function' && typeof anyElement.addEvent === 'function') {
+  try {
+    return await connectEvent(element, { ...resolveElementTarget(element, defaults), name, uriVariables: parseUriVariablesAttr(element), ...parseFormSelectionAttrs(element) });
+  } catch (err) {
+    reportLinkFailure(element, kind, name, defaults, err);
+    return undefined;
+  }
+}
+
+/** Progress of the initial connect of `connectAll()`; the detail of `ui-wot:connect-progress` events. */
+export type ConnectProgress = {
+  /** Number of element bindings to set up */
+  total: number;
+  /** Number of element bindings handled so far */
+  done: number;
+  /** Number of element bindings that were connected */
+  connected: number;
+};
+
+/** Options of `connectAll()`. */
+export type ConnectAllOptions = ThingTarget & {
+  container?: ParentNode;
+  watch?: boolean;
+  /** Maximum number of elements connected at the same time (default 6) */
+  concurrency?: number;
+  /** Called after each element binding of the initial connect */
+  onProgress?: (progress: ConnectProgress) => void;
+  /** How long to wait for an undefined custom element tag before checking its contract (default 5000, 0 to not wait) */
+  definitionTimeoutMs?: number;
+};
+
+/** Collect the bindable elements among added nodes and their descendants. */
+function collectAddedBindables(records: MutationRecord[], into: Set<HTMLElement>): void {
+  for (const record of records) {
+    record.addedNodes.forEach(node => {
+      if (!(node instanceof HTMLElement)) return;
+      if (node.matches(BINDABLE_SELECTOR)) into.add(node);
+      node.querySelectorAll<HTMLElement>(BINDABLE_SELECTOR).forEach(element => into.add(element));
+    });
+  }
+}
+
+/**
+ * Group the property elements of a container by Thing and read their initial values in batch.
+ *
+ * @returns Drops the batched values no element took
+ */
+async function prefetchContainer(elements: HTMLElement[], defaults: ThingTarget, root: ParentNode): Promise<Cleanup> {
+  const groups = new Map<string | ThingDescription, { td?: ThingDescription; names: Set<string> }>();
+  for (const element of elements) {
+    const name = getAttr(element, BINDING_ATTRIBUTES.property);
+    if (!name || isOwnedByNestedThing(element, root)) continue;
+    // Elements selecting a form read it on their own
+    if (element.hasAttribute('td-form-index') || element.hasAttribute('td-content-type')) continue;
+    try {
+      const target = resolveElementTarget(element, defaults);
+      const source = resolveThingSource(target, 'connectAll');
+      if (!groups.has(source)) groups.set(source, { td: target.td, names: new Set() });
+      groups.get(source).names.add(name);
+    } catch {}
+  }
+  const releases = await Promise.all(
+    Array.from(groups, async ([source, { td, names }]) => {
       try {
-        const thingUrl = getAttr(element, 'td-url') || defaultThingUrl;
-        const stop = await connectEvent(element, { baseUrl: thingUrl, name: eventName });
-        if (stop) cleanups.push(stop);
-      } catch {}
-    }
+        return prefetchProperties(await ensureThing(source, td), Array.from(names));
+      } catch {
+        return undefined;
+      }
+    }),
+  );
+  return () => releases.forEach(release => release?.());
+}
+
+/**
+ * Connect all matching UI elements within a container to a Thing at `baseUrl` or given as `td`.
+ * Elements can override the Thing with `td-url` or with `td-ref` pointing to an embedded TD script.
+ * Elements inside a nested `<ui-thing>` are left to that container.
+ *
+ * Besides the shipped components, any custom element implementing `WotPropertyBindable`, `WotActionBindable`
+ * or `WotEventBindable` is bound, e.g. `<my-gauge td-property="temperature">` with a `setValue()` or `setValueSilent()` method.
+ * Elements whose tag is not defined yet are awaited briefly; elements that do not implement the contract
+ * for their td-* attribute are skipped with a warning.
+ *
+ * With `watch: true` a MutationObserver keeps the container in sync: added elements are connected,
+ * removed elements are torn down and changed td-* attributes re-bind the element. The result then holds
+ * a single cleanup that stops watching and tears down every binding.
+ *
+ * Elements are connected in parallel, at most `concurrency` at a time, and the initial property values of
+ * each Thing are read in one batch where the TD allows it. Progress is reported through `onProgress` and as
+ * `ui-wot:connect-progress` events dispatched on the container.
+ */
+export async function connectAll(options: ConnectAllOptions): Promise<Cleanup[]> {
+  const searchRoot = options.container || document;
+  const defaults: ThingTarget = { baseUrl: options.baseUrl, td: options.td };
+  const definitionTimeoutMs = options.definitionTimeoutMs ?? DEFINITION_TIMEOUT_MS;
+  const kinds: BindingKind[] = ['property', 'action', 'event'];
+  const tracked = new Map<HTMLElement, Cleanup[]>();
+
+  const track = (element: HTMLElement, stop?: Cleanup) => {
+    if (!stop) return;
+    if (!tracked.has(element)) tracked.set(element, []);
+    tracked.get(element).push(stop);
+  };
+
+  // Elements added while the initial scan runs are connected after it, in watch mode
+  const addedDuringScan = new Set<HTMLElement>();
+  const scanObserver = options.watch ? new MutationObserver(records => collectAddedBindables(records, addedDuringScan)) : undefined;
+  scanObserver?.observe(searchRoot as Node, { childList: true, subtree: true });
+
+  // Properties first, so their batched reads start before actions and events
+  const propertyElements = Array.from(searchRoot.querySelectorAll<HTMLElement>(`[${BINDING_ATTRIBUTES.property}]`));
+  const releasePrefetched = await prefetchContainer(propertyElements, defaults, searchRoot);
+  const targets: Array<{ element: HTMLElement; kind: BindingKind }> = [];
+  for (const kind of kinds) {
+    const elements = kind === 'property' ? propertyElements : Array.from(searchRoot.querySelectorAll<HTMLElement>(`[${BINDING_ATTRIBUTES[kind]}]`));
+    for (const element of elements) targets.push({ element, kind });
   }
 
-  return cleanups;
+  const progress: ConnectProgress = { total: targets.length, done: 0, connected: 0 };
+  const reportProgress = () => {
+    options.onProgress?.({ ...progress });
+    (searchRoot as Node).dispatchEvent(new CustomEvent<ConnectProgress>('ui-wot:connect-progress', { bubbles: true, detail: { ...progress } }));
+  };
+  reportProgress();
+  await runWithConcurrency(
+    targets.map(({ element, kind }) => async () => {
+      const stop = await connectElement(element, kind, defaults, searchRoot, definitionTimeoutMs);
+      track(element, stop);
+      progress.done++;
+      if (stop) progress.connected++;
+      reportProgress();
+    }),
+    options.concurrency ?? 6,
+  );
+  // Elements that failed to bind leave their values behind; a later bind must not take them stale
+  releasePrefetched();
+
+  if (!scanObserver) return Array.from(tracked.values()).flat();
+
+  // Serialize connect/teardown per element, since both are async
+  const queues = new Map<HTMLElement, Promise<void>>();
+  const enqueue = (element: HTMLElement, task: () => Promise<void>) => {
+    const next = (queues.get(element) ?? Promise.resolve()).then(task).catch(err => console.warn('[ui-wot][connectAll] watch update failed', { error: String(err) }));
+    queues.set(element, next);
+    void next.then(() => {
+      if (queues.get(element) === next) queues.delete(element);
+    });
+  };
+  const connectTracked = (element: HTMLElement) =>
+    enqueue(element, async () => {
+      if (tracked.has(element) || !element.isConnected) return;
+      for (const kind of kinds) track(element, await connectElement(element, kind, defaults, searchRoot, definitionTimeoutMs));
+    });
+  const disconnectTracked = (element: HTMLElement) =>
+    enqueue(element, async () => {
+      const stops = tracked.get(element) ?? [];
+      tracked.delete(element);
+      for (const stop of stops) {
+        try {
+          await stop();
+        } catch {}
+      }
+    });
+
+  const observer = new MutationObserver(records => {
+    for (const record of records) {
+      if (record.type === 'attributes') {
+        const target = record.target as HTMLElement;
+        // A unit system set on a container applies to the elements inside it
+        const affected = record.attributeName === 'td-unit-system' ? Array.from(tracked.keys()).filter(element => target.contains(element)) : [target];
+        for (const element of affected) {
+          disconnectTracked(element);
+          if (element.matches(BINDABLE_SELECTOR)) connectTracked(element);
+        }
+        continue;
+      }
+      record.removedNodes.forEach(node => {
+        if (!(node instanceof HTMLElement)) return;
+        // Elements that were only moved stay connected and keep their bindings
+        for (const element of Array.from(tracked.keys())) {
+          if (!element.isConnected && (node === element || node.contains(element))) disconnectTracked(element);
+        }
+      });
+      const added = new Set<HTMLElement>();
+      collectAddedBindables([record], added);
+      added.forEach(connectTracked);
+    }
+  });
+  observer.observe(searchRoot as Node, { childList: true, subtree: true, attributes: true, attributeFilter: WATCHED_ATTRIBUTES });
+
+  // Pick up elements added while the initial scan was awaiting; scanned elements that failed are not retried
+  collectAddedBindables(scanObserver.takeRecords(), addedDuringScan);
+  scanObserver.disconnect();
+  const scanned = new Set(targets.map(({ element }) => element));
+  addedDuringScan.forEach(element => {
+    if (!scanned.has(element)) connectTracked(element);
+  });
+
+  return [
+    async () => {
+      observer.disconnect();
+      Array.from(tracked.keys()).forEach(disconnectTracked);
+      await Promise.all(Array.from(queues.values()));
+    },
+  ];
 }
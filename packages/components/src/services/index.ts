@@ -5,4 +5,58 @@ export {
   connectAction,
   connectEvent,
   connectAll,
+  evictThing,
+  refreshThing,
+  watchThing,
+  unwatchThing,
+  loadThing,
+  resolveTdRef,
+  getThingStatus,
+  getThingStatuses,
+  isPropertyBindable,
+  isActionBindable,
+  isEventBindable,
 } from './browser-bundle-connect';
+export type {
+  InitializeWotOptions,
+  ClientFactoryName,
+  WotClientFactory,
+  ThingDescription,
+  ThingTarget,
+  ThingChange,
+  AffordanceNames,
+  ConnectPropertyOptions,
+  ConnectActionOptions,
+  ConnectEventOptions,
+  WotCredentials,
+  CredentialRequest,
+  CredentialProvider,
+  ThingConnectionState,
+  ThingStatus,
+  WriteValidator,
+  ConnectAllOptions,
+  ConnectProgress,
+  UriVariables,
+  FormSelection,
+  OfflineQueueOptions,
+  WriteConflict,
+  TdValidationFailure,
+} from './browser-bundle-connect';
+export type { ValueType } from './output-decoder';
+export { discoverThings, summarizeThing, matchesThingQuery } from './thing-directory';
+export type { ThingSummary, DiscoverThingsOptions } from './thing-directory';
+export type { BackoffOptions } from './subscription-supervisor';
+export { validateAgainstSchema, formatSchemaIssues } from './schema-validator';
+export type { SchemaIssue } from './schema-validator';
+export { validateThingDescription } from './td-validator';
+export type { TdIssue, TdValidationResult, TdValidationOptions } from './td-validator';
+export { registerTransform, compileTransform } from './value-transform';
+export type { ValueTransform, TransformStep, TransformSpec } from './value-transform';
+export { registerUnit, resolveUnit, formatUnit, convertUnit, getPreferredUnit, getUnitSystem, setUnitSystem, subscribeUnitSystem } from './unit-registry';
+export type { UnitSystem, UnitDefinition } from './unit-registry';
+export { configureInteractionLog, getInteractionLog, clearInteractionLog, exportInteractionLog, subscribeInteractionLog, INTERACTION_OPERATIONS } from './interaction-log';
+export type { InteractionOperation, InteractionRecord, InteractionLogFilter, InteractionLogOptions } from './interaction-log';
+export { getQueuedWrites, discardQueuedWrites } from './write-queue';
+export type { QueuedWriteInfo } from './write-queue';
+export { createSimulatedThing } from './thing-simulator';
+export type { SimulatorOptions } from './thing-simulator';
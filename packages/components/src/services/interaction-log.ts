@@ -0,0 +1,127 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * In-memory log of WoT interactions made by the connection layer, for debugging and support.
+ *
+ */
+
+/** Kinds of logged interactions, in the order they are offered for filtering. */
+export const INTERACTION_OPERATIONS = [
+  'readproperty',
+  'readmultipleproperties',
+  'readallproperties',
+  'writeproperty',
+  'invokeaction',
+  'observeproperty',
+  'propertychange',
+  'subscribeevent',
+  'event',
+  'connect',
+] as const;
+
+/** Kind of a logged interaction. */
+export type InteractionOperation = (typeof INTERACTION_OPERATIONS)[number];
+
+/** One logged interaction. */
+export type InteractionRecord = {
+  /** Increasing sequence number */
+  id: number;
+  /** Time the interaction started */
+  ts: number;
+  /** TD URL the Thing was consumed from, if any */
+  thingUrl?: string;
+  thingId?: string;
+  thingTitle?: string;
+  operation: InteractionOperation;
+  /** Property, action or event name */
+  affordance?: string;
+  /** Value written, action input, or value received */
+  payload?: any;
+  /** Duration of request/response interactions */
+  latencyMs?: number;
+  ok: boolean;
+  error?: string;
+};
+
+/** Filter for `getInteractionLog()`; a Thing matches by URL, id or title. */
+export type InteractionLogFilter = { thing?: string; operation?: InteractionOperation; affordance?: string; errorsOnly?: boolean };
+
+/** Settings of the interaction log. */
+export type InteractionLogOptions = {
+  /** Record interactions (default true) */
+  enabled?: boolean;
+  /** Number of records kept; older ones are dropped (default 500) */
+  limit?: number;
+};
+
+let enabled = true;
+let limit = 500;
+let nextId = 1;
+const records: InteractionRecord[] = [];
+const listeners = new Set<(record: InteractionRecord) => void>();
+
+/** Change the interaction log settings; shrinking the limit drops the oldest records. */
+export function configureInteractionLog(options: InteractionLogOptions): void {
+  if (options.enabled !== undefined) enabled = options.enabled;
+  if (options.limit !== undefined && options.limit >= 0) limit = options.limit;
+  if (records.length > limit) records.splice(0, records.length - limit);
+}
+
+/** Describe binary payloads instead of keeping them in memory. */
+function summarizePayload(payload: any): any {
+  if (payload instanceof ArrayBuffer) return { type: 'ArrayBuffer', byteLength: payload.byteLength };
+  if (typeof Blob !== 'undefined' && payload instanceof Blob) return { type: 'Blob', contentType: payload.type, size: payload.size };
+  if (ArrayBuffer.isView(payload)) return { type: payload.constructor.name, byteLength: payload.byteLength };
+  return payload;
+}
+
+/** Add a record to the log and notify subscribers. */
+export function recordInteraction(entry: Omit<InteractionRecord, 'id'>): void {
+  if (!enabled) return;
+  const record: InteractionRecord = { ...entry, id: nextId++, payload: summarizePayload(entry.payload) };
+  records.push(record);
+  if (records.length > limit) records.splice(0, records.length - limit);
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(record);
+    } catch {}
+  }
+}
+
+/** Check a record against a filter. */
+export function matchesInteractionFilter(record: InteractionRecord, filter?: InteractionLogFilter): boolean {
+  if (!filter) return true;
+  if (filter.thing && ![record.thingUrl, record.thingId, record.thingTitle].includes(filter.thing)) return false;
+  if (filter.operation && record.operation !== filter.operation) return false;
+  if (filter.affordance && record.affordance !== filter.affordance) return false;
+  if (filter.errorsOnly && record.ok) return false;
+  return true;
+}
+
+/** Get the logged interactions, oldest first. */
+export function getInteractionLog(filter?: InteractionLogFilter): InteractionRecord[] {
+  return records.filter(record => matchesInteractionFilter(record, filter));
+}
+
+/** Remove all records. */
+export function clearInteractionLog(): void {
+  records.length = 0;
+}
+
+/** Dump the logged interactions as JSON, e.g. to attach to a support request. */
+export function exportInteractionLog(filter?: InteractionLogFilter): string {
+  return JSON.stringify(
+    { exportedAt: new Date().toISOString(), userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined, records: getInteractionLog(filter) },
+    null,
+    2,
+  );
+}
+
+/**
+ * Get notified of every new record.
+ * @returns Function that removes the listener
+ */
+export function subscribeInteractionLog(listener: (record: InteractionRecord) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
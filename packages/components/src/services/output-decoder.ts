@@ -0,0 +1,59 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Decoding of node-wot interaction outputs by content type, shared by the binder and the poll scheduler.
+ *
+ */
+
+/**
+ * How a property value is handed to components:
+ * - `json`: the value decoded by node-wot (JSON, CBOR and other structured content types)
+ * - `text`: a string, e.g. for `ui-text`
+ * - `arraybuffer`: the raw payload as `ArrayBuffer`
+ * - `object-url`: a `blob:` URL of the payload, e.g. for camera snapshots shown in an `<img>`
+ * - `auto` (default): chosen from the content type of the response
+ */
+export type ValueType = 'auto' | 'json' | 'text' | 'arraybuffer' | 'object-url';
+
+/** Decoding hints for an interaction output. */
+export type DecodeOptions = { contentType?: string; valueType?: ValueType };
+
+/** Normalize a content type: lower case, without parameters. */
+export function normalizeContentType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/** Pick the value type for a content type: structured data, text, images or raw binary. */
+function resolveValueType(contentType: string, requested?: ValueType): Exclude<ValueType, 'auto'> {
+  if (requested && requested !== 'auto') return requested;
+  if (/^application\/(.+\+)?(json|cbor)$/.test(contentType)) return 'json';
+  if (contentType.startsWith('text/')) return 'text';
+  if (contentType.startsWith('image/')) return 'object-url';
+  return 'arraybuffer';
+}
+
+/** Read the raw payload of an output. */
+async function readOutputBytes(output: any): Promise<ArrayBuffer> {
+  if (typeof output?.arrayBuffer === 'function') return output.arrayBuffer();
+  if (output instanceof ArrayBuffer) return output;
+  if (ArrayBuffer.isView(output)) return output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength) as ArrayBuffer;
+  if (typeof output === 'string') return new TextEncoder().encode(output).buffer as ArrayBuffer;
+  return new TextEncoder().encode(JSON.stringify(output)).buffer as ArrayBuffer;
+}
+
+/**
+ * Normalize output if there is functions instead of value, decoding it by its content type.
+ * Images selected as `object-url` are returned as a Blob for the caller to turn into a URL.
+ */
+export async function readOutputValue(output: any, options?: DecodeOptions): Promise<any> {
+  // Already decoded values (e.g. from a shared poll) pass through
+  if (!output || output instanceof Blob || (typeof output.value !== 'function' && typeof output.arrayBuffer !== 'function')) return output;
+  const contentType = normalizeContentType(output.form?.contentType ?? options?.contentType ?? 'application/json');
+  const valueType = resolveValueType(contentType, options?.valueType);
+
+  if (valueType === 'json') return typeof output.value === 'function' ? output.value() : output;
+  const bytes = await readOutputBytes(output);
+  if (valueType === 'text') return new TextDecoder().decode(bytes);
+  if (valueType === 'object-url') return new Blob([bytes], { type: contentType });
+  return bytes;
+}
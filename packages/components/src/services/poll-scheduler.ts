@@ -0,0 +1,184 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { readOutputValue } from './output-decoder';
+
+/**
+ * Shared polling of WoT properties: one timer per Thing and interval, one read per property and tick.
+ *
+ */
+
+/** An element (or other consumer) polling one property. */
+export type PollSubscriber = {
+  /** Receives the decoded property value after each read, with the time the read was sent */
+  onValue: (value: any, readStartedAt: number) => void | Promise<void>;
+  /** Called when reading the property failed */
+  onError?: (err: any) => void;
+  /** node-wot interaction options used for single reads; only subscribers with equal options share a read */
+  readOptions?: any;
+  /** Whether the Thing may be read with `readMultipleProperties`, i.e. the subscriber reads the default form */
+  batch?: boolean;
+  /** Decodes a read output (default `readOutputValue()`, by content type); an output can be consumed once, so a shared read is decoded once */
+  decode?: (output: any) => Promise<any>;
+  /** Identifies what `decode` produces, e.g. the content and value type; only subscribers with equal keys share a read */
+  decodeKey?: string;
+  /** Own read for subscribers that cannot share one, e.g. with URI variables; polled on the shared timer */
+  read?: () => Promise<any>;
+};
+
+/** One poll request, as reported to the tracer. */
+export type PollRequest = {
+  operation: 'readproperty' | 'readmultipleproperties';
+  /** Properties read by the request */
+  properties: string[];
+  /** Time the request was sent */
+  ts: number;
+  /** Duration of the request alone, without decoding and delivery */
+  latencyMs: number;
+  /** Decoded value of a single read */
+  value?: any;
+  err?: any;
+};
+
+/** Receives every poll request once, however many subscribers share it, e.g. to log it. */
+export type PollTracer = (thing: any, request: PollRequest) => void;
+
+let tracer: PollTracer | undefined;
+
+/** Set the tracer of poll requests, or remove it with undefined. */
+export function setPollTracer(next: PollTracer | undefined): void {
+  tracer = next;
+}
+
+/** Subscribers of one property sharing a read, e.g. with the same selected form and decoding. */
+type PolledProperty = { name: string; readOptions?: any; subscribers: Set<PollSubscriber> };
+
+/** The properties of one Thing polled at the same interval. */
+type PollGroup = {
+  timer: ReturnType<typeof setInterval>;
+  /** Keyed by property name, read options and decode key */
+  properties: Map<string, PolledProperty>;
+  /** Subscribers with their own read, with the property they read */
+  custom: Map<PollSubscriber, string>;
+  /** Set while a tick is reading, so slow devices are not queued up with overlapping requests */
+  busy: boolean;
+};
+
+/** Poll groups per consumed Thing, keyed by interval */
+const pollGroups = new WeakMap<object, Map<number, PollGroup>>();
+
+/** Key of the subscribers of a property that can share a read. */
+function toReadKey(propertyName: string, subscriber: PollSubscriber): string {
+  return JSON.stringify([propertyName, subscriber.readOptions ?? null, subscriber.decodeKey ?? null]);
+}
+
+/** Report a poll request to the tracer; a failing tracer must not break polling. */
+function trace(thing: any, request: PollRequest): void {
+  try {
+    tracer?.(thing, request);
+  } catch {}
+}
+
+/**
+ * Hand a read result to every subscriber of a property.
+ *
+ * @param output - Output of a batch read, traced with its request; without it the property is read and traced here
+ */
+async function deliver(thing: any, name: string, subscribers: Iterable<PollSubscriber>, read: () => Promise<any>, output?: { value: any; ts: number }): Promise<void> {
+  const ts = output?.ts ?? Date.now();
+  let latencyMs: number | undefined;
+  try {
+    const result = output ? output.value : await read();
+    if (!output) latencyMs = Date.now() - ts;
+    // Outputs can be consumed only once; subscribers sharing a read decode alike
+    const decode = Array.from(subscribers)[0]?.decode ?? readOutputValue;
+    const value = await decode(result);
+    if (latencyMs !== undefined) trace(thing, { operation: 'readproperty', properties: [name], ts, latencyMs, value });
+    for (const subscriber of Array.from(subscribers)) {
+      try {
+        await subscriber.onValue(value, ts);
+      } catch {}
+    }
+  } catch (err) {
+    if (!output) trace(thing, { operation: 'readproperty', properties: [name], ts, latencyMs: latencyMs ?? Date.now() - ts, err });
+    for (const subscriber of Array.from(subscribers)) subscriber.onError?.(err);
+  }
+}
+
+/** Read all properties of a group once, in a single request when every subscriber allows it. */
+async function pollGroup(thing: any, group: PollGroup): Promise<void> {
+  if (group.busy) return;
+  group.busy = true;
+  try {
+    const entries = Array.from(group.properties.values());
+    const batch = entries.length > 1 && typeof thing.readMultipleProperties === 'function' && entries.every(({ subscribers }) => Array.from(subscribers).every(s => s.batch));
+
+    let results: any;
+    const ts = Date.now();
+    if (batch) {
+      const properties = Array.from(new Set(entries.map(({ name }) => name)));
+      try {
+        results = await thing.readMultipleProperties(properties);
+        trace(thing, { operation: 'readmultipleproperties', properties, ts, latencyMs: Date.now() - ts });
+      } catch (err) {
+        trace(thing, { operation: 'readmultipleproperties', properties, ts, latencyMs: Date.now() - ts, err });
+        // Fall back to single reads, which report their own errors
+        results = undefined;
+      }
+    }
+
+    // An output can be consumed once, so other entries of the same property read on their own
+    const delivered = new Set<string>();
+    await Promise.all([
+      ...entries.map(({ name, readOptions, subscribers }) => {
+        const output = delivered.has(name) ? undefined : results instanceof Map ? results.get(name) : results?.[name];
+        const read = () => thing.readProperty(name, readOptions);
+        if (output === undefined) return deliver(thing, name, subscribers, read);
+        delivered.add(name);
+        return deliver(thing, name, subscribers, read, { value: output, ts });
+      }),
+      ...Array.from(group.custom, ([subscriber, name]) => deliver(thing, name, [subscriber], subscriber.read)),
+    ]);
+  } finally {
+    group.busy = false;
+  }
+}
+
+/**
+ * Poll a property of a consumed Thing every `intervalMs`.
+ * Subscribers of the same Thing and interval share one timer, and subscribers of the same property, `readOptions`
+ * and `decodeKey` share one read unless they bring their own `read`.
+ *
+ * @returns Function that removes the subscriber; the timer stops with the last one
+ */
+export function subscribePoll(thing: any, propertyName: string, intervalMs: number, subscriber: PollSubscriber): () => void {
+  if (!pollGroups.has(thing)) pollGroups.set(thing, new Map());
+  const groups = pollGroups.get(thing);
+
+  let group = groups.get(intervalMs);
+  if (!group) {
+    const created: PollGroup = { timer: undefined, properties: new Map(), custom: new Map(), busy: false };
+    created.timer = setInterval(() => void pollGroup(thing, created), intervalMs);
+    groups.set(intervalMs, created);
+    group = created;
+  }
+  const key = toReadKey(propertyName, subscriber);
+  if (subscriber.read) {
+    group.custom.set(subscriber, propertyName);
+  } else {
+    if (!group.properties.has(key)) group.properties.set(key, { name: propertyName, readOptions: subscriber.readOptions, subscribers: new Set() });
+    group.properties.get(key).subscribers.add(subscriber);
+  }
+
+  const current = group;
+  return () => {
+    if (subscriber.read) {
+      if (!current.custom.delete(subscriber)) return;
+    } else {
+      const subscribers = current.properties.get(key)?.subscribers;
+      if (!subscribers?.delete(subscriber)) return;
+      if (!subscribers.size) current.properties.delete(key);
+    }
+    if (current.properties.size || current.custom.size) return;
+    clearInterval(current.timer);
+    if (groups.get(intervalMs) === current) groups.delete(intervalMs);
+  };
+}
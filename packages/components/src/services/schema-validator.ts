@@ -0,0 +1,118 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Validates values against WoT DataSchemas (the JSON Schema subset used by Thing Descriptions).
+ *
+ */
+
+/** A single validation failure, located by a JSON pointer into the value. */
+export type SchemaIssue = { pointer: string; message: string };
+
+/** Escape a key for use in a JSON pointer. */
+export function escapePointer(key: string | number): string {
+  return String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/** Get the DataSchema type of a value. */
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/** Check a value against the schema `type`, where integers are also numbers. */
+function matchesType(value: any, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/** Check whether an object has an own member, so keys such as "constructor" do not match inherited ones. */
+export function hasOwn(object: any, key: string): boolean {
+  return !!object && typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** Deep equality for enum and const checks. */
+function isEqual(a: any, b: any): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a DataSchema.
+ * Checks type, enum, const, numeric and length bounds, pattern, required and additional object members and nested schemas.
+ *
+ * @returns The list of issues; empty when the value is valid
+ */
+export function validateAgainstSchema(value: any, schema: any, pointer: string = ''): SchemaIssue[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const issues: SchemaIssue[] = [];
+  const fail = (message: string) => issues.push({ pointer, message });
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    fail(`expected ${schema.type} but got ${typeOf(value)}`);
+    return issues;
+  }
+  if ('const' in schema && !isEqual(value, schema.const)) fail(`must be ${JSON.stringify(schema.const)}`);
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => isEqual(value, option))) {
+    fail(`must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) fail(`must be > ${schema.exclusiveMinimum}`);
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) fail(`must be < ${schema.exclusiveMaximum}`);
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const ratio = value / schema.multipleOf;
+      if (Math.abs(ratio - Math.round(ratio)) > 1e-9) fail(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`);
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) fail(`must match pattern ${schema.pattern}`);
+      } catch {}
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema: any, index: number) => {
+        if (index < value.length) issues.push(...validateAgainstSchema(value[index], itemSchema, `${pointer}/${index}`));
+      });
+    } else if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateAgainstSchema(item, schema.items, `${pointer}/${index}`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!hasOwn(value, key)) issues.push({ pointer: `${pointer}/${escapePointer(key)}`, message: 'is required' });
+    }
+    for (const [key, memberSchema] of Object.entries<any>(schema.properties ?? {})) {
+      if (hasOwn(value, key)) issues.push(...validateAgainstSchema(value[key], memberSchema, `${pointer}/${escapePointer(key)}`));
+    }
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+      for (const key of Object.keys(value).filter(key => !hasOwn(schema.properties ?? {}, key))) {
+        if (schema.additionalProperties === false) issues.push({ pointer: `${pointer}/${escapePointer(key)}`, message: 'is not allowed' });
+        else issues.push(...validateAgainstSchema(value[key], schema.additionalProperties, `${pointer}/${escapePointer(key)}`));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.oneOf) && schema.oneOf.length && !schema.oneOf.some((option: any) => !validateAgainstSchema(value, option, pointer).length)) {
+    fail('does not match any of the allowed schemas');
+  }
+
+  return issues;
+}
+
+/** Format validation issues as a single message. */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => (issue.pointer ? `${issue.pointer} ${issue.message}` : issue.message)).join('; ');
+}
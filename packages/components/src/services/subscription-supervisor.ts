@@ -0,0 +1,145 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Keeps WoT subscriptions (observeProperty / subscribeEvent) alive by resubscribing with exponential backoff.
+ *
+ */
+
+/** Backoff settings for resubscription attempts. */
+export type BackoffOptions = {
+  /** Delay before the first retry (default 1000 ms) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between retries (default 30000 ms) */
+  maxDelayMs?: number;
+  /** Multiplier applied after each failed attempt (default 2) */
+  factor?: number;
+  /** Random spread as a ratio of the delay, 0 disables jitter (default 0.2) */
+  jitter?: number;
+};
+
+/** Something that can be unsubscribed, as returned by node-wot. */
+type Subscription = { unsubscribe?: () => any } | undefined | null;
+
+/** Options for supervising a single subscription. */
+export type SupervisorOptions = {
+  /** Create the subscription; call `onError` when it drops. */
+  subscribe: (onError: (err: any) => void) => Promise<Subscription>;
+  /** Called when the subscription failed or dropped. */
+  onDown?: (err: any) => void;
+  /** Called when the subscription is (re-)established. */
+  onUp?: () => void;
+  backoff?: BackoffOptions;
+  /** Retry failed or dropped subscriptions (default true) */
+  retry?: boolean;
+  /** Whether an error is a permanent rejection, e.g. of a property that cannot be observed; no retry follows it */
+  isPermanent?: (err: any) => boolean;
+};
+
+/** Handle of a supervised subscription. */
+export type SubscriptionSupervisor = {
+  /** Subscribe; resolves true when the first attempt succeeded. Failed attempts are retried in the background. */
+  start(): Promise<boolean>;
+  /** Cancel pending retries and unsubscribe. */
+  stop(): Promise<void>;
+  /** Whether the subscription is currently established. */
+  isUp(): boolean;
+};
+
+/** Delay before retry number `attempt` (0-based), with exponential growth and jitter. */
+export function computeBackoffDelay(attempt: number, options?: BackoffOptions): number {
+  const initial = options?.initialDelayMs ?? 1000;
+  const max = options?.maxDelayMs ?? 30000;
+  const factor = options?.factor ?? 2;
+  const jitter = Math.min(Math.max(options?.jitter ?? 0.2, 0), 1);
+  const base = Math.min(max, initial * Math.pow(factor, attempt));
+  const spread = base * jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
+
+/** End a subscription, ignoring errors from already closed ones. */
+async function endSubscription(subscription: Subscription): Promise<void> {
+  try {
+    await subscription?.unsubscribe?.();
+  } catch {}
+}
+
+/**
+ * Supervise a subscription: when subscribing fails or the subscription reports an error,
+ * it is torn down and re-created after an exponentially growing, jittered delay.
+ * Permanent rejections (see `isPermanent`) are reported once and not retried.
+ */
+export function superviseSubscription(options: SupervisorOptions): SubscriptionSupervisor {
+  let subscription: Subscription;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let generation = 0;
+  let stopped = true;
+  let up = false;
+
+  const markDown = (err: any) => {
+    const wasUp = up;
+    up = false;
+    if (wasUp || attempt === 0) options.onDown?.(err);
+  };
+
+  const scheduleRetry = (err: any) => {
+    if (stopped || retryTimer || options.retry === false || options.isPermanent?.(err)) return;
+    const delay = computeBackoffDelay(attempt, options.backoff);
+    attempt++;
+    retryTimer = setTimeout(() => {
+      retryTimer = undefined;
+      void connect();
+    }, delay);
+  };
+
+  const connect = async (): Promise<boolean> => {
+    const current = ++generation;
+    const onError = (err: any) => {
+      // Ignore errors of subscriptions that were already replaced
+      if (stopped || current !== generation) return;
+      const dropped = subscription;
+      subscription = undefined;
+      void endSubscription(dropped);
+      markDown(err);
+      scheduleRetry(err);
+    };
+
+    try {
+      const created = await options.subscribe(onError);
+      if (stopped || current !== generation) {
+        await endSubscription(created);
+        return false;
+      }
+      subscription = created;
+      attempt = 0;
+      up = true;
+      options.onUp?.();
+      return true;
+    } catch (err) {
+      if (stopped) return false;
+      markDown(err);
+      scheduleRetry(err);
+      return false;
+    }
+  };
+
+  return {
+    start: async () => {
+      if (!stopped) return up;
+      stopped = false;
+      attempt = 0;
+      return connect();
+    },
+    stop: async () => {
+      stopped = true;
+      up = false;
+      generation++;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = undefined;
+      const current = subscription;
+      subscription = undefined;
+      await endSubscription(current);
+    },
+    isUp: () => up,
+  };
+}
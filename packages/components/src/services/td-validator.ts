@@ -0,0 +1,283 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { escapePointer, hasOwn, SchemaIssue, validateAgainstSchema } from './schema-validator';
+
+/**
+ * Validation of Thing Descriptions before they are consumed, usable standalone (e.g. in CI).
+ * It checks the subset of TD 1.1 listed at `validateThingDescription()`, not the published TD 1.1 JSON Schema.
+ *
+ */
+
+/** A problem found in a TD, located by a JSON pointer. Errors break interactions, warnings are TD 1.1 conformance gaps. */
+export type TdIssue = SchemaIssue & { severity: 'error' | 'warning' };
+
+/** Outcome of `validateThingDescription()`. */
+export type TdValidationResult = {
+  /** No errors were found (warnings allowed) */
+  valid: boolean;
+  issues: TdIssue[];
+};
+
+/** Options of `validateThingDescription()`. */
+export type TdValidationOptions = {
+  /** URL the TD was retrieved from; relative hrefs of a TD without `base` resolve against it */
+  retrievalUrl?: string;
+};
+
+/** Context URIs of TD 1.0 and 1.1 */
+const TD_CONTEXTS = ['https://www.w3.org/2019/wot/td/v1', 'https://www.w3.org/2022/wot/td/v1.1'];
+
+/** Security schemes defined by TD 1.1 */
+const SECURITY_SCHEMES = ['nosec', 'combo', 'basic', 'digest', 'apikey', 'bearer', 'psk', 'oauth2', 'auto'];
+
+/** Operation types allowed on forms of each level */
+const OPERATIONS: Record<'thing' | 'properties' | 'actions' | 'events', string[]> = {
+  thing: [
+    'readallproperties',
+    'writeallproperties',
+    'readmultipleproperties',
+    'writemultipleproperties',
+    'observeallproperties',
+    'unobserveallproperties',
+    'queryallactions',
+    'subscribeallevents',
+    'unsubscribeallevents',
+  ],
+  properties: ['readproperty', 'writeproperty', 'observeproperty', 'unobserveproperty'],
+  actions: ['invokeaction', 'queryaction', 'cancelaction'],
+  events: ['subscribeevent', 'unsubscribeevent'],
+};
+
+/** Names of the levels in messages */
+const LEVEL_LABELS: Record<keyof typeof OPERATIONS, string> = { thing: 'Thing-level', properties: 'property', actions: 'action', events: 'event' };
+
+const STRING_OR_STRINGS = { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] };
+const MULTI_LANGUAGE = { type: 'object', additionalProperties: { type: 'string' } };
+
+/** Build the DataSchema part of the TD 1.1 JSON Schema, nested `depth` levels deep. */
+function dataSchema(depth: number): any {
+  const nested = depth > 0 ? dataSchema(depth - 1) : { type: 'object' };
+  return {
+    type: 'object',
+    properties: {
+      'title': { type: 'string' },
+      'titles': MULTI_LANGUAGE,
+      'description': { type: 'string' },
+      'descriptions': MULTI_LANGUAGE,
+      '@type': STRING_OR_STRINGS,
+      'type': { type: 'string', enum: ['boolean', 'integer', 'number', 'string', 'object', 'array', 'null'] },
+      'unit': { type: 'string' },
+      'enum': { type: 'array', minItems: 1 },
+      'readOnly': { type: 'boolean' },
+      'writeOnly': { type: 'boolean' },
+      'format': { type: 'string' },
+      'contentEncoding': { type: 'string' },
+      'contentMediaType': { type: 'string' },
+      'minimum': { type: 'number' },
+      'maximum': { type: 'number' },
+      'exclusiveMinimum': { type: 'number' },
+      'exclusiveMaximum': { type: 'number' },
+      'multipleOf': { type: 'number', exclusiveMinimum: 0 },
+      'minLength': { type: 'integer', minimum: 0 },
+      'maxLength': { type: 'integer', minimum: 0 },
+      'pattern': { type: 'string' },
+      'minItems': { type: 'integer', minimum: 0 },
+      'maxItems': { type: 'integer', minimum: 0 },
+      'items': { oneOf: [nested, { type: 'array', items: nested }] },
+      'properties': { type: 'object', additionalProperties: nested },
+      'required': { type: 'array', items: { type: 'string' } },
+      'oneOf': { type: 'array', items: nested },
+    },
+  };
+}
+
+const DATA_SCHEMA = dataSchema(3);
+
+const FORM_SCHEMA = {
+  type: 'object',
+  required: ['href'],
+  properties: {
+    href: { type: 'string', minLength: 1 },
+    contentType: { type: 'string' },
+    contentCoding: { type: 'string' },
+    subprotocol: { type: 'string' },
+    op: STRING_OR_STRINGS,
+    security: STRING_OR_STRINGS,
+    scopes: STRING_OR_STRINGS,
+    response: { type: 'object', properties: { contentType: { type: 'string' } } },
+  },
+};
+
+const FORMS = { type: 'array', minItems: 1, items: FORM_SCHEMA };
+
+/** Members shared by all interaction affordances */
+const AFFORDANCE_MEMBERS = {
+  'title': { type: 'string' },
+  'titles': MULTI_LANGUAGE,
+  'description': { type: 'string' },
+  'descriptions': MULTI_LANGUAGE,
+  '@type': STRING_OR_STRINGS,
+  'forms': FORMS,
+  'uriVariables': { type: 'object', additionalProperties: DATA_SCHEMA },
+};
+
+const PROPERTY_SCHEMA = {
+  ...DATA_SCHEMA,
+  required: ['forms'],
+  properties: { ...DATA_SCHEMA.properties, ...AFFORDANCE_MEMBERS, observable: { type: 'boolean' } },
+};
+
+const ACTION_SCHEMA = {
+  type: 'object',
+  required: ['forms'],
+  properties: {
+    ...AFFORDANCE_MEMBERS,
+    input: DATA_SCHEMA,
+    output: DATA_SCHEMA,
+    safe: { type: 'boolean' },
+    idempotent: { type: 'boolean' },
+    synchronous: { type: 'boolean' },
+  },
+};
+
+const EVENT_SCHEMA = {
+  type: 'object',
+  required: ['forms'],
+  properties: { ...AFFORDANCE_MEMBERS, subscription: DATA_SCHEMA, data: DATA_SCHEMA, dataResponse: DATA_SCHEMA, cancellation: DATA_SCHEMA },
+};
+
+/** Structural rules taken from the TD 1.1 JSON Schema; required TD members are checked as warnings separately */
+const TD_SCHEMA = {
+  type: 'object',
+  properties: {
+    '@context': { oneOf: [{ type: 'string' }, { type: 'array' }] },
+    '@type': STRING_OR_STRINGS,
+    'id': { type: 'string' },
+    'title': { type: 'string' },
+    'titles': MULTI_LANGUAGE,
+    'description': { type: 'string' },
+    'descriptions': MULTI_LANGUAGE,
+    'version': { type: 'object' },
+    'created': { type: 'string' },
+    'modified': { type: 'string' },
+    'base': { type: 'string' },
+    'properties': { type: 'object', additionalProperties: PROPERTY_SCHEMA },
+    'actions': { type: 'object', additionalProperties: ACTION_SCHEMA },
+    'events': { type: 'object', additionalProperties: EVENT_SCHEMA },
+    'links': { type: 'array', items: { type: 'object', required: ['href'], properties: { href: { type: 'string' } } } },
+    'forms': { type: 'array', items: FORM_SCHEMA },
+    'security': STRING_OR_STRINGS,
+    'securityDefinitions': { type: 'object', additionalProperties: { type: 'object', required: ['scheme'], properties: { scheme: { type: 'string' } } } },
+    'schemaDefinitions': { type: 'object', additionalProperties: DATA_SCHEMA },
+    'uriVariables': { type: 'object', additionalProperties: DATA_SCHEMA },
+  },
+};
+
+/** A value as a list. */
+function toList(value: any): any[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+/** Check whether a URI carries a scheme, i.e. does not depend on `base`. */
+function isAbsoluteUri(href: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(href);
+}
+
+/** Names of the URI template variables of an href, e.g. `{id}` or `{?from,to}`. */
+function getTemplateVariables(href: string): string[] {
+  return Array.from(href.matchAll(/\{[+#./;?&]?([^}]+)\}/g)).flatMap(match => match[1].split(',').map(name => name.replace(/\*$|:\d+$/, '').trim()));
+}
+
+/** Semantic checks beyond the JSON Schema: hrefs resolvable, operations valid, security references defined. */
+function checkSemantics(td: any, issues: TdIssue[], options: TdValidationOptions): void {
+  const error = (pointer: string, message: string) => issues.push({ pointer, message, severity: 'error' });
+  const warn = (pointer: string, message: string) => issues.push({ pointer, message, severity: 'warning' });
+
+  const contexts = toList(td['@context']);
+  if (!td['@context']) warn('/@context', 'is required');
+  else if (!contexts.some(context => TD_CONTEXTS.includes(context))) warn('/@context', `should include ${TD_CONTEXTS[1]}`);
+  if (td.title === undefined) warn('/title', 'is required');
+  if (td.id !== undefined && typeof td.id === 'string' && !isAbsoluteUri(td.id)) warn('/id', 'should be a URI');
+  if (typeof td.base === 'string' && !isAbsoluteUri(td.base)) error('/base', 'must be an absolute URI');
+
+  const definitions = td.securityDefinitions && typeof td.securityDefinitions === 'object' ? td.securityDefinitions : undefined;
+  if (!definitions) warn('/securityDefinitions', 'is required');
+  if (td.security === undefined) warn('/security', 'is required');
+  const checkSecurity = (names: any, pointer: string) => {
+    toList(names).forEach((name, index) => {
+      if (typeof name === 'string' && !hasOwn(definitions, name)) {
+        error(Array.isArray(names) ? `${pointer}/${index}` : pointer, `refers to undefined security definition "${name}"`);
+      }
+    });
+  };
+  checkSecurity(td.security, '/security');
+  for (const [name, definition] of Object.entries<any>(definitions ?? {})) {
+    const pointer = `/securityDefinitions/${escapePointer(name)}`;
+    if (typeof definition?.scheme === 'string' && !SECURITY_SCHEMES.includes(definition.scheme) && !definition.scheme.includes(':')) {
+      warn(`${pointer}/scheme`, `unknown security scheme "${definition.scheme}"`);
+    }
+    if (definition?.scheme === 'combo') {
+      for (const member of ['oneOf', 'allOf']) if (definition[member]) checkSecurity(definition[member], `${pointer}/${member}`);
+    }
+  }
+
+  const checkForms = (forms: any, pointer: string, level: keyof typeof OPERATIONS, uriVariables: any) => {
+    if (!Array.isArray(forms)) return;
+    forms.forEach((form, index) => {
+      const formPointer = `${pointer}/${index}`;
+      if (!form || typeof form.href !== 'string') return;
+      if (!isAbsoluteUri(form.href) && typeof td.base !== 'string' && !options.retrievalUrl) {
+        warn(`${formPointer}/href`, `relative href "${form.href}" has no base and resolves only against the URL the TD is retrieved from`);
+      }
+      for (const name of getTemplateVariables(form.href)) {
+        if (!hasOwn(uriVariables, name) && !hasOwn(td.uriVariables, name)) warn(`${formPointer}/href`, `URI variable "${name}" is not declared in uriVariables`);
+      }
+      toList(form.op).forEach((op, opIndex) => {
+        if (typeof op === 'string' && !OPERATIONS[level].includes(op)) {
+          error(Array.isArray(form.op) ? `${formPointer}/op/${opIndex}` : `${formPointer}/op`, `"${op}" is not a ${LEVEL_LABELS[level]} operation`);
+        }
+      });
+      if (form.security !== undefined) checkSecurity(form.security, `${formPointer}/security`);
+    });
+  };
+
+  checkForms(td.forms, '/forms', 'thing', undefined);
+  for (const level of ['properties', 'actions', 'events'] as const) {
+    if (!td[level] || typeof td[level] !== 'object') continue;
+    for (const [name, affordance] of Object.entries<any>(td[level])) {
+      const pointer = `/${level}/${escapePointer(name)}`;
+      if (!affordance || typeof affordance !== 'object') continue;
+      checkForms(affordance.forms, `${pointer}/forms`, level, affordance.uriVariables);
+      if (level === 'properties' && affordance.readOnly === true && affordance.writeOnly === true) warn(pointer, 'cannot be both readOnly and writeOnly');
+    }
+  }
+}
+
+/**
+ * Validate a Thing Description against a subset of TD 1.1. Exactly these rules are checked:
+ * - errors:
+ *   - types of the TD members, affordance members, form members, links, security definitions and DataSchemas
+ *     (nested up to four levels), and the ranges of DataSchema keywords such as `multipleOf` and `minLength`
+ *   - properties, actions and events without forms; forms and links without `href`; security definitions without `scheme`
+ *   - `op` values not defined for the level of their form (Thing, property, action or event)
+ *   - `security` of the Thing, of forms and of `combo` schemes naming undefined security definitions
+ *   - a `base` that is not an absolute URI
+ * - warnings:
+ *   - missing `@context`, or one without the TD 1.0 or 1.1 context URI; missing `title`, `security` or `securityDefinitions`
+ *   - an `id` that is not a URI; security schemes neither defined by TD 1.1 nor prefixed
+ *   - URI template variables of an href not declared in `uriVariables`
+ *   - relative hrefs without `base` or `options.retrievalUrl`
+ *   - properties both `readOnly` and `writeOnly`
+ *
+ * Everything else of the published TD 1.1 JSON Schema is not checked, e.g. date formats of `created` and
+ * `modified`, the members of specific security schemes, `links` relation types and JSON-LD semantics.
+ *
+ * @returns The issues found; `valid` is false when any of them is an error
+ */
+export function validateThingDescription(td: any, options: TdValidationOptions = {}): TdValidationResult {
+  if (!td || typeof td !== 'object' || Array.isArray(td)) {
+    return { valid: false, issues: [{ pointer: '', message: 'must be a JSON object', severity: 'error' }] };
+  }
+  const issues: TdIssue[] = validateAgainstSchema(td, TD_SCHEMA).map(issue => ({ ...issue, severity: 'error' as const }));
+  checkSemantics(td, issues, options);
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+}
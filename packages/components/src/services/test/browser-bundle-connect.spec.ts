@@ -0,0 +1,506 @@
+import { connectAll, connectProperty, evictThing, getThingStatus, initializeWot, loadThing, refreshThing } from '../browser-bundle-connect';
+import { clearInteractionLog, getInteractionLog } from '../interaction-log';
+
+/** A consumed Thing stand-in serving `values` for its properties */
+function stubThing(td: any, values: Record<string, any> = {}) {
+  return {
+    getThingDescription: () => td,
+    readProperty: jest.fn(async (name: string) => ({ value: async () => values[name] })),
+    writeProperty: jest.fn(async () => undefined),
+  };
+}
+
+/** A TD with one property, identified by `id` */
+function thingDescription(id: string, overrides: any = {}) {
+  return { id, title: 'Lamp', properties: { brightness: { type: 'integer', forms: [{ href: 'http://lamp.local/brightness' }] } }, ...overrides };
+}
+
+/** A property element stand-in with a `connected` prop */
+function propertyElement() {
+  return Object.assign(document.createElement('div'), { connected: true, setValue: jest.fn(async () => undefined), setValueSilent: jest.fn(async () => undefined) });
+}
+
+let consume: jest.Mock;
+const originalHTMLElement = HTMLElement;
+
+beforeEach(async () => {
+  // Elements of the mock document are no instances of its HTMLElement global
+  (globalThis as any).HTMLElement = document.createElement('div').constructor;
+  consume = jest.fn(async (td: any) => stubThing(td));
+  (window as any).WoT = { consume };
+  await initializeWot({ reuseExisting: false, validateTds: false });
+});
+
+afterEach(() => ((globalThis as any).HTMLElement = originalHTMLElement));
+
+describe('inline TD sources', () => {
+  it('shares one Thing between TD objects with the same id', async () => {
+    const first = await loadThing({ td: thingDescription('urn:lamp:shared') });
+    const second = await loadThing({ td: thingDescription('urn:lamp:shared') });
+    expect(second).toBe(first);
+    expect(consume).toHaveBeenCalledTimes(1);
+  });
+
+  it('consumes a changed TD with the same id after eviction', async () => {
+    const original = thingDescription('urn:lamp:evicted');
+    await loadThing({ td: original });
+    expect(evictThing(original)).toBe(true);
+
+    const changed = thingDescription('urn:lamp:evicted', { title: 'Desk lamp' });
+    const thing = await loadThing({ td: changed });
+    expect(consume).toHaveBeenCalledTimes(2);
+    expect(consume).toHaveBeenLastCalledWith(changed);
+    expect(thing.getThingDescription().title).toBe('Desk lamp');
+
+    // The changed TD is now the one its id maps to
+    expect(await loadThing({ td: thingDescription('urn:lamp:evicted') })).toBe(thing);
+    expect(consume).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('refreshThing', () => {
+  const originalFetch = (globalThis as any).fetch;
+  afterEach(() => ((globalThis as any).fetch = originalFetch));
+
+  /** Serve `td` with an ETag for every URL */
+  function serveTd(td: any) {
+    const fetch = jest.fn(async () => ({ ok: true, status: 200, statusText: 'OK', headers: { get: (name: string) => (name === 'ETag' ? '"v1"' : null) }, json: async () => td }));
+    (globalThis as any).fetch = fetch;
+    return fetch;
+  }
+
+  it('revalidates with the ETag on the page origin only', async () => {
+    const sameOrigin = new URL('/things/lamp', document.baseURI).href;
+    const crossOrigin = 'https://tdd.example.org/things/lamp';
+    const fetch = serveTd(thingDescription('urn:lamp:etag'));
+    await loadThing({ baseUrl: sameOrigin });
+    await loadThing({ baseUrl: crossOrigin });
+
+    await refreshThing(sameOrigin);
+    await refreshThing(crossOrigin);
+    expect(fetch).toHaveBeenCalledWith(sameOrigin, { headers: { 'If-None-Match': '"v1"' } });
+    expect(fetch).toHaveBeenLastCalledWith(crossOrigin, undefined);
+  });
+});
+
+describe('reachability', () => {
+  it('marks the Thing offline when an observation drops', async () => {
+    const td = thingDescription('urn:lamp:observed', { properties: { brightness: { type: 'integer', observable: true, forms: [{ href: 'http://lamp.local/brightness' }] } } });
+    let drop: (err: any) => void;
+    consume.mockImplementationOnce(async (td: any) => ({
+      ...stubThing(td, { brightness: 5 }),
+      observeProperty: jest.fn(async (_name: string, _listener: any, onError: (err: any) => void) => {
+        drop = onError;
+        return { unsubscribe: jest.fn() };
+      }),
+    }));
+    const element = propertyElement();
+    const offline = jest.fn();
+    document.addEventListener('ui-wot:thing-offline', offline);
+
+    const stop = await connectProperty(element, { td, name: 'brightness', strategy: 'observe', resubscribe: false });
+    expect(getThingStatus(td)?.state).toBe('online');
+    drop({ type: 'error' });
+
+    expect(element.connected).toBe(false);
+    expect(getThingStatus(td)?.state).toBe('offline');
+    expect(offline).toHaveBeenCalledTimes(1);
+    document.removeEventListener('ui-wot:thing-offline', offline);
+    await stop();
+  });
+
+  it('keeps the Thing online for errors the device answered and application-level ones', async () => {
+    const td = thingDescription('urn:lamp:answered', { properties: { brightness: { type: 'integer', observable: true, forms: [{ href: 'http://lamp.local/brightness' }] } } });
+    const thing = {
+      ...stubThing(td),
+      readProperty: jest
+        .fn()
+        .mockResolvedValueOnce({ value: async () => 5 })
+        .mockRejectedValue(Object.assign(new Error('Bad Request'), { status: 400 })),
+      observeProperty: jest.fn().mockRejectedValue(Object.assign(new Error('observe is not supported'), { name: 'NotSupportedError' })),
+    };
+    consume.mockResolvedValueOnce(thing);
+    const element = propertyElement();
+
+    // Observing is rejected, and the poll taking over is answered with 400
+    jest.useFakeTimers();
+    const stop = await connectProperty(element, { td, name: 'brightness', strategy: 'auto', pollMs: 1000 });
+    await jest.advanceTimersByTimeAsync(1000);
+    jest.useRealTimers();
+    expect(thing.observeProperty).toHaveBeenCalled();
+    expect(thing.readProperty).toHaveBeenCalledTimes(2);
+    expect(getThingStatus(td)?.state).toBe('online');
+    expect(element.connected).toBe(true);
+    await stop();
+  });
+
+  it('marks the Thing offline when it cannot be reached, and online once it answers again', async () => {
+    const td = thingDescription('urn:lamp:unreachable');
+    const thing = stubThing(td, { brightness: 5 });
+    thing.readProperty.mockRejectedValueOnce(Object.assign(new Error('Failed to fetch'), { name: 'TypeError' }));
+    consume.mockResolvedValueOnce(thing);
+    const element = propertyElement();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    jest.useFakeTimers();
+    const stop = await connectProperty(element, { td, name: 'brightness', strategy: 'poll', pollMs: 1000 });
+    expect(getThingStatus(td)?.state).toBe('offline');
+    expect(element.connected).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    jest.useRealTimers();
+    expect(getThingStatus(td)?.state).toBe('online');
+    expect(element.connected).toBe(true);
+    await stop();
+    jest.restoreAllMocks();
+  });
+});
+
+describe('connectAll watch mode', () => {
+  /** MutationObserver stand-in whose records are added by hand */
+  class FakeMutationObserver {
+    static instances: FakeMutationObserver[] = [];
+    pending: any[] = [];
+    constructor(public callback: (records: any[]) => void) {
+      FakeMutationObserver.instances.push(this);
+    }
+    observe() {}
+    disconnect() {}
+    takeRecords() {
+      return this.pending.splice(0);
+    }
+  }
+
+  beforeEach(() => {
+    FakeMutationObserver.instances = [];
+    (globalThis as any).MutationObserver = FakeMutationObserver;
+  });
+  afterEach(() => delete (globalThis as any).MutationObserver);
+
+  it('connects elements added during the scan once, and does not retry skipped ones', async () => {
+    const td = thingDescription('urn:lamp:watched');
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const scanned = Object.assign(propertyElement(), { id: 'scanned' });
+    scanned.setAttribute('td-property', 'brightness');
+    const skipped = document.createElement('div');
+    skipped.setAttribute('td-property', 'brightness');
+    container.append(scanned, skipped);
+    const added = propertyElement();
+    added.setAttribute('td-property', 'brightness');
+    // The element is added while the Thing of the scan is consumed
+    consume.mockImplementationOnce(async (td: any) => {
+      container.appendChild(added);
+      FakeMutationObserver.instances[0].pending.push({ type: 'childList', addedNodes: [added], removedNodes: [] });
+      return stubThing(td, { brightness: 5 });
+    });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const [stop] = await connectAll({ container, td, watch: true });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(scanned.setValue).toHaveBeenCalledTimes(1);
+    expect(added.setValue).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls.filter(([message]) => String(message).includes('does not implement'))).toHaveLength(1);
+
+    warn.mockRestore();
+    await stop();
+    container.remove();
+  });
+});
+
+describe('connectProperty', () => {
+  it('removes its URI variable listeners when the strategy fails', async () => {
+    const td = thingDescription('urn:lamp:uri-variables');
+    const thing = stubThing(td, { brightness: 5 });
+    consume.mockResolvedValueOnce(thing);
+    const unit = Object.assign(document.createElement('div'), { getValue: async () => 'percent' });
+
+    await expect(connectProperty(propertyElement(), { td, name: 'brightness', strategy: 'observe', uriVariables: { unit } })).rejects.toThrow('observeProperty not supported');
+    unit.dispatchEvent(new CustomEvent('valueMsg', { detail: { ok: true } }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(thing.readProperty).not.toHaveBeenCalled();
+  });
+
+  it('stops a failed observation it will not retry', async () => {
+    const td = thingDescription('urn:lamp:unobservable');
+    const thing = { ...stubThing(td, { brightness: 5 }), observeProperty: jest.fn().mockRejectedValue(new Error('Server error: Internal Server Error')) };
+    consume.mockResolvedValueOnce(thing);
+    const unit = Object.assign(document.createElement('div'), { getValue: async () => 'percent' });
+
+    await expect(connectProperty(propertyElement(), { td, name: 'brightness', strategy: 'observe', resubscribe: false, uriVariables: { unit } })).rejects.toThrow(
+      'observeProperty failed',
+    );
+    const reads = thing.readProperty.mock.calls.length;
+    unit.dispatchEvent(new CustomEvent('valueMsg', { detail: { ok: true } }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(thing.readProperty).toHaveBeenCalledTimes(reads);
+  });
+});
+
+describe('form selection', () => {
+  it('gives property forms without op only the read and write defaults', async () => {
+    const td = thingDescription('urn:lamp:default-ops', { properties: { brightness: { type: 'integer', observable: true, forms: [{ href: 'http://lamp.local/brightness' }] } } });
+    consume.mockResolvedValueOnce({ ...stubThing(td, { brightness: 5 }), observeProperty: jest.fn(async () => ({ unsubscribe: jest.fn() })) });
+
+    await expect(connectProperty(propertyElement(), { td, name: 'brightness', strategy: 'observe', formIndex: 0 })).rejects.toThrow('does not support observeproperty');
+  });
+
+  it('decodes reads by the content type of the form they go to', async () => {
+    const forms = [
+      { href: 'http://lamp.local/brightness/changes', op: 'observeproperty', contentType: 'application/json' },
+      { href: 'http://lamp.local/brightness', contentType: 'text/plain' },
+    ];
+    const td = thingDescription('urn:lamp:read-form', { properties: { brightness: { type: 'string', forms } } });
+    const thing = { ...stubThing(td), readProperty: jest.fn(async () => ({ value: async () => 'not json', arrayBuffer: async () => new TextEncoder().encode('dim').buffer })) };
+    consume.mockResolvedValueOnce(thing);
+    const element = propertyElement();
+
+    const stop = await connectProperty(element, { td, name: 'brightness', strategy: 'poll', pollMs: 60000 });
+    expect(element.setValue).toHaveBeenCalledWith('dim', expect.anything());
+    await stop();
+  });
+});
+
+describe('offline queue', () => {
+  afterEach(() => jest.useRealTimers());
+
+  /** Connect `brightness` of a Thing whose first write finds it unreachable, returning the element's write operation */
+  async function connectQueued(id: string, { pollMs = 60000, replayMs = 100 } = {}) {
+    const td = thingDescription(id);
+    const values = { brightness: 5 };
+    const thing = stubThing(td, values);
+    thing.writeProperty.mockRejectedValueOnce(Object.assign(new Error('Failed to fetch'), { name: 'TypeError' }));
+    consume.mockResolvedValueOnce(thing);
+    const element = propertyElement();
+    jest.useFakeTimers();
+    const stop = await connectProperty(element, { td, name: 'brightness', strategy: 'poll', pollMs, offlineQueue: { backoff: { initialDelayMs: replayMs, jitter: 0 } } });
+    const [, { writeOperation }] = element.setValue.mock.calls[0] as any[];
+    return { values, thing, element, stop, writeOperation };
+  }
+
+  it('logs the conflict check read of a replayed write', async () => {
+    const { thing, stop, writeOperation } = await connectQueued('urn:lamp:queued-log');
+    const write = writeOperation(7);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await write).toEqual(expect.objectContaining({ status: 'pending' }));
+    clearInteractionLog();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(thing.writeProperty).toHaveBeenCalledTimes(2);
+    expect(getInteractionLog({ thing: 'urn:lamp:queued-log', operation: 'readproperty' })).toEqual([expect.objectContaining({ affordance: 'brightness', payload: 5, ok: true })]);
+    await stop();
+  });
+
+  it('keeps the queued value while the Thing reports back with the old one', async () => {
+    const { values, thing, element, stop, writeOperation } = await connectQueued('urn:lamp:queued-value', { pollMs: 1000, replayMs: 60000 });
+    const write = writeOperation(7);
+    await jest.advanceTimersByTimeAsync(0);
+    await write;
+
+    // The poll finds the Thing back, which replays the write
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(thing.writeProperty).toHaveBeenCalledTimes(2);
+    expect(element.setValueSilent).not.toHaveBeenCalled();
+
+    values.brightness = 7;
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(element.setValueSilent).toHaveBeenLastCalledWith(7);
+    await stop();
+  });
+
+  it('reports a conflict instead of writing when the device value changed while offline', async () => {
+    const { values, thing, element, stop, writeOperation } = await connectQueued('urn:lamp:queued-conflict');
+    const conflict = jest.fn();
+    element.addEventListener('ui-wot:write-conflict', conflict);
+    const write = writeOperation(7);
+    await jest.advanceTimersByTimeAsync(0);
+    await write;
+
+    values.brightness = 9;
+    await jest.advanceTimersByTimeAsync(100);
+    expect(thing.writeProperty).toHaveBeenCalledTimes(1);
+    expect(conflict).toHaveBeenCalledWith(expect.objectContaining({ detail: expect.objectContaining({ propertyName: 'brightness', value: 7, expected: 5, current: 9 }) }));
+    expect(element.setValueSilent).toHaveBeenLastCalledWith(9);
+    await stop();
+  });
+});
+
+describe('simulation', () => {
+  /** A TD whose property has no forms, which only a simulator can serve */
+  const formless = (id: string) => thingDescription(id, { properties: { brightness: { type: 'integer', minimum: 0, maximum: 100 } } });
+
+  it('serves Things without validating them, whether simulated per binding or globally', async () => {
+    await initializeWot({ reuseExisting: false });
+    const perBinding = await loadThing({ td: formless('urn:lamp:simulated'), simulate: true });
+    expect(consume).not.toHaveBeenCalled();
+
+    await initializeWot({ reuseExisting: false, simulate: true });
+    const global = await loadThing({ td: formless('urn:lamp:simulated-globally') });
+    for (const thing of [perBinding, global]) {
+      const value = await (await thing.readProperty('brightness')).value();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe('Thing cache', () => {
+  const originalFetch = (globalThis as any).fetch;
+  afterEach(() => ((globalThis as any).fetch = originalFetch));
+
+  it('fetches and consumes a TD URL once for concurrent callers, and again after eviction', async () => {
+    const url = 'http://lamp.local/td';
+    const fetch = jest.fn(async () => ({ ok: true, status: 200, headers: { get: () => null }, json: async () => thingDescription('urn:lamp:cached') }));
+    (globalThis as any).fetch = fetch;
+
+    const [first, second] = await Promise.all([loadThing({ baseUrl: url }), loadThing({ baseUrl: url })]);
+    expect(second).toBe(first);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(consume).toHaveBeenCalledTimes(1);
+    // Relative hrefs resolve against the URL the TD came from
+    expect(consume).toHaveBeenCalledWith(expect.objectContaining({ base: url }));
+
+    expect(evictThing(url)).toBe(true);
+    expect(await loadThing({ baseUrl: url })).not.toBe(first);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('refreshThing changes', () => {
+  it('re-binds elements and reports the affordances that changed', async () => {
+    const td = thingDescription('urn:lamp:refreshed');
+    // Detached elements are dropped instead of re-bound
+    const element = document.body.appendChild(propertyElement());
+    const stop = await connectProperty(element, { td, name: 'brightness' });
+    const changed = jest.fn();
+    document.addEventListener('ui-wot:thing-changed', changed);
+
+    expect(await refreshThing(thingDescription('urn:lamp:refreshed'))).toBeNull();
+    const next = thingDescription('urn:lamp:refreshed', { properties: { ...td.properties, color: { type: 'string', forms: [{ href: 'http://lamp.local/color' }] } } });
+    const change = await refreshThing(next);
+
+    expect(change.added.properties).toEqual(['color']);
+    expect(change.changed.properties).toEqual([]);
+    expect(change.metadataChanged).toBe(false);
+    expect(changed).toHaveBeenCalledWith(expect.objectContaining({ detail: change }));
+    expect(consume).toHaveBeenCalledTimes(2);
+    // The element read its value again from the new Thing
+    expect(element.setValue).toHaveBeenCalledTimes(2);
+    document.removeEventListener('ui-wot:thing-changed', changed);
+    await stop();
+    element.remove();
+  });
+});
+
+describe('credentials', () => {
+  it('asks for the schemes a TD requires and registers the answer before consuming it', async () => {
+    const addCredentials = jest.fn();
+    class Servient {
+      addClientFactory() {}
+      addCredentials = addCredentials;
+      async start() {
+        return { consume };
+      }
+    }
+    (window as any).WoT = { Core: { Servient }, Http: { HttpClientFactory: class {} } };
+    const provider = jest.fn(async () => ({ token: 'secret' }));
+    await initializeWot({ reuseExisting: false, validateTds: false, credentials: provider });
+
+    const td = thingDescription('urn:lamp:protected', { security: 'bearer_sc', securityDefinitions: { bearer_sc: { scheme: 'bearer', in: 'header' } } });
+    await loadThing({ td });
+    expect(provider).toHaveBeenCalledWith({ thingId: 'urn:lamp:protected', title: 'Lamp', schemes: [{ name: 'bearer_sc', scheme: 'bearer', in: 'header' }] });
+    expect(addCredentials).toHaveBeenCalledWith({ 'urn:lamp:protected': { token: 'secret' } });
+    expect(addCredentials.mock.invocationCallOrder[0]).toBeLessThan(consume.mock.invocationCallOrder[0]);
+  });
+});
+
+describe('property DataSchema', () => {
+  /** A property element with the props a slider offers */
+  const sliderElement = () => Object.assign(propertyElement(), { min: undefined, max: undefined, step: undefined, label: undefined });
+
+  it('sets component props from the schema, leaving attributes set in markup', async () => {
+    const td = thingDescription('urn:lamp:schema-props', {
+      properties: { brightness: { type: 'integer', title: 'Brightness', minimum: 0, exclusiveMaximum: 100, multipleOf: 5, forms: [{ href: 'http://lamp.local/brightness' }] } },
+    });
+    const element = sliderElement();
+    element.setAttribute('label', 'Light');
+
+    const stop = await connectProperty(element, { td, name: 'brightness' });
+    expect(element).toMatchObject({ min: 0, max: 95, step: 5, label: undefined });
+    await stop();
+  });
+
+  it('rejects writes outside the schema before they reach the device', async () => {
+    const td = thingDescription('urn:lamp:schema-writes', { properties: { brightness: { type: 'integer', maximum: 100, forms: [{ href: 'http://lamp.local/brightness' }] } } });
+    const thing = stubThing(td, { brightness: 5 });
+    consume.mockResolvedValueOnce(thing);
+    const element = propertyElement();
+    const stop = await connectProperty(element, { td, name: 'brightness' });
+    const [, { writeOperation }] = element.setValue.mock.calls[0] as any[];
+
+    await expect(writeOperation(150)).rejects.toThrow('Invalid value for brightness');
+    expect(thing.writeProperty).not.toHaveBeenCalled();
+    await stop();
+  });
+});
+
+describe('batched reads', () => {
+  it('reads the initial values of a container with one readmultipleproperties request', async () => {
+    const td = thingDescription('urn:lamp:batched', {
+      properties: { brightness: { type: 'integer', forms: [{ href: 'http://lamp.local/brightness' }] }, color: { type: 'string', forms: [{ href: 'http://lamp.local/color' }] } },
+      forms: [{ href: 'http://lamp.local/properties', op: 'readmultipleproperties' }],
+    });
+    const output = (value: any) => ({ value: async () => value });
+    const thing = { ...stubThing(td), readMultipleProperties: jest.fn(async (names: string[]) => new Map(names.map(name => [name, output(name === 'color' ? 'red' : 5)]))) };
+    consume.mockResolvedValueOnce(thing);
+    const container = document.createElement('div');
+    const brightness = propertyElement();
+    brightness.setAttribute('td-property', 'brightness');
+    const color = propertyElement();
+    color.setAttribute('td-property', 'color');
+    container.append(brightness, color);
+
+    const stops = await connectAll({ container, td });
+    expect(thing.readMultipleProperties).toHaveBeenCalledWith(['brightness', 'color']);
+    expect(thing.readProperty).not.toHaveBeenCalled();
+    expect(brightness.setValue).toHaveBeenCalledWith(5, expect.anything());
+    expect(color.setValue).toHaveBeenCalledWith('red', expect.anything());
+    for (const stop of stops) await stop();
+  });
+});
+
+describe('URI variables and payloads', () => {
+  it('passes URI variables, read from bound elements, to every read', async () => {
+    const td = thingDescription('urn:lamp:uri-read');
+    const thing = stubThing(td, { brightness: 5 });
+    consume.mockResolvedValueOnce(thing);
+    const unit = Object.assign(document.createElement('div'), { getValue: jest.fn(async () => 'percent') });
+
+    const stop = await connectProperty(propertyElement(), { td, name: 'brightness', uriVariables: { unit, scale: 2 } });
+    expect(thing.readProperty).toHaveBeenCalledWith('brightness', { uriVariables: { unit: 'percent', scale: 2 } });
+
+    unit.getValue.mockResolvedValue('raw');
+    unit.dispatchEvent(new CustomEvent('valueMsg', { detail: { ok: true } }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(thing.readProperty).toHaveBeenLastCalledWith('brightness', { uriVariables: { unit: 'raw', scale: 2 } });
+    await stop();
+  });
+
+  it('shows image payloads as object URLs', async () => {
+    const td = thingDescription('urn:lamp:snapshot', { properties: { snapshot: { forms: [{ href: 'http://lamp.local/snapshot', contentType: 'image/png' }] } } });
+    consume.mockResolvedValueOnce({
+      ...stubThing(td),
+      readProperty: jest.fn(async () => ({ value: async () => undefined, arrayBuffer: async () => new Uint8Array([137, 80]).buffer })),
+    });
+    const createObjectURL = jest.fn(() => 'blob:snapshot');
+    const originalURL = { createObjectURL: URL.createObjectURL, revokeObjectURL: URL.revokeObjectURL };
+    Object.assign(URL, { createObjectURL, revokeObjectURL: jest.fn() });
+    const element = propertyElement();
+
+    const stop = await connectProperty(element, { td, name: 'snapshot', strategy: 'poll', pollMs: 60000 });
+    expect(element.setValue).toHaveBeenCalledWith('blob:snapshot', expect.anything());
+    expect(createObjectURL).toHaveBeenCalledWith(expect.objectContaining({ type: 'image/png' }));
+    await stop();
+    Object.assign(URL, originalURL);
+  });
+});
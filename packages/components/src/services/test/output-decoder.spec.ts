@@ -0,0 +1,37 @@
+import { normalizeContentType, readOutputValue } from '../output-decoder';
+
+/** An InteractionOutput-like result with a JSON value and a raw payload */
+function output(value: any, payload: string, contentType?: string) {
+  return { form: contentType ? { contentType } : undefined, value: async () => value, arrayBuffer: async () => new TextEncoder().encode(payload).buffer };
+}
+
+describe('readOutputValue', () => {
+  it('decodes structured content types with value()', async () => {
+    expect(await readOutputValue(output(21, '21'))).toBe(21);
+    expect(await readOutputValue(output({ on: true }, '', 'application/td+json'))).toEqual({ on: true });
+  });
+
+  it('decodes text, images and other binary by content type', async () => {
+    expect(await readOutputValue(output(undefined, 'hello', 'text/plain; charset=utf-8'))).toBe('hello');
+    const image = await readOutputValue(output(undefined, 'png', 'image/png'));
+    expect(image).toBeInstanceOf(Blob);
+    expect(image.type).toBe('image/png');
+    expect(await readOutputValue(output(undefined, 'raw', 'application/octet-stream'))).toBeInstanceOf(ArrayBuffer);
+  });
+
+  it('uses the expected content type when the output names none, and the requested value type', async () => {
+    expect(await readOutputValue(output(undefined, 'hello'), { contentType: 'text/plain' })).toBe('hello');
+    expect(await readOutputValue(output(21, '21'), { valueType: 'text' })).toBe('21');
+  });
+
+  it('passes decoded values through', async () => {
+    expect(await readOutputValue(21)).toBe(21);
+    expect(await readOutputValue({ on: true })).toEqual({ on: true });
+  });
+});
+
+describe('normalizeContentType', () => {
+  it('drops parameters and case', () => {
+    expect(normalizeContentType('Text/Plain; charset=UTF-8')).toBe('text/plain');
+  });
+});
@@ -0,0 +1,146 @@
+import { setPollTracer, subscribePoll } from '../poll-scheduler';
+
+/** An InteractionOutput-like result of a read */
+const output = (value: any) => ({ value: async () => value });
+
+describe('subscribePoll', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('shares one read per property and tick', async () => {
+    const thing = { readProperty: jest.fn(async () => output(21)) };
+    const first = jest.fn();
+    const second = jest.fn();
+    const stopFirst = subscribePoll(thing, 'temperature', 1000, { onValue: first });
+    const stopSecond = subscribePoll(thing, 'temperature', 1000, { onValue: second });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(thing.readProperty).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(21, expect.any(Number));
+    expect(second).toHaveBeenCalledWith(21, expect.any(Number));
+
+    stopFirst();
+    stopSecond();
+  });
+
+  it('reads separately for different read options', async () => {
+    const thing = { readProperty: jest.fn(async (_name: string, options?: any) => output(options?.formIndex ?? 0)) };
+    const byDefault = jest.fn();
+    const bySecondForm = jest.fn();
+    const stopDefault = subscribePoll(thing, 'temperature', 1000, { onValue: byDefault });
+    const stopSecondForm = subscribePoll(thing, 'temperature', 1000, { onValue: bySecondForm, readOptions: { formIndex: 1 } });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(thing.readProperty).toHaveBeenCalledWith('temperature', undefined);
+    expect(thing.readProperty).toHaveBeenCalledWith('temperature', { formIndex: 1 });
+    expect(byDefault).toHaveBeenCalledWith(0, expect.any(Number));
+    expect(bySecondForm).toHaveBeenCalledWith(1, expect.any(Number));
+
+    stopDefault();
+    stopSecondForm();
+  });
+
+  it('reads separately for subscribers decoding differently', async () => {
+    const thing = { readProperty: jest.fn(async () => ({ value: async () => 'json', arrayBuffer: async () => new ArrayBuffer(4) })) };
+    const asJson = jest.fn();
+    const asBytes = jest.fn();
+    const stopJson = subscribePoll(thing, 'snapshot', 1000, { onValue: asJson, decode: output => output.value(), decodeKey: 'json' });
+    const stopBytes = subscribePoll(thing, 'snapshot', 1000, { onValue: asBytes, decode: output => output.arrayBuffer(), decodeKey: 'arraybuffer' });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(thing.readProperty).toHaveBeenCalledTimes(2);
+    expect(asJson).toHaveBeenCalledWith('json', expect.any(Number));
+    expect(asBytes).toHaveBeenCalledWith(expect.any(ArrayBuffer), expect.any(Number));
+
+    stopJson();
+    stopBytes();
+  });
+
+  it('batches properties only when every subscriber allows it', async () => {
+    const thing = {
+      readProperty: jest.fn(async () => output('single')),
+      readMultipleProperties: jest.fn(async (names: string[]) => Object.fromEntries(names.map(name => [name, output(name)]))),
+    };
+    const onValue = jest.fn();
+    const stops = [subscribePoll(thing, 'a', 1000, { onValue, batch: true }), subscribePoll(thing, 'b', 1000, { onValue, batch: true })];
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(thing.readMultipleProperties).toHaveBeenCalledWith(['a', 'b']);
+    expect(thing.readProperty).not.toHaveBeenCalled();
+
+    stops.push(subscribePoll(thing, 'c', 1000, { onValue, batch: false }));
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(thing.readMultipleProperties).toHaveBeenCalledTimes(1);
+    expect(thing.readProperty).toHaveBeenCalledTimes(3);
+
+    stops.forEach(stop => stop());
+  });
+
+  it('reports read failures to the subscribers', async () => {
+    const failure = new Error('Failed to fetch');
+    const thing = { readProperty: jest.fn().mockRejectedValue(failure) };
+    const onError = jest.fn();
+    const stop = subscribePoll(thing, 'temperature', 1000, { onValue: jest.fn(), onError });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onError).toHaveBeenCalledWith(failure);
+
+    stop();
+  });
+
+  it('does not start a tick while the previous read is pending', async () => {
+    let finish: (value: any) => void;
+    const thing = { readProperty: jest.fn(() => new Promise(resolve => (finish = resolve))) };
+    const stop = subscribePoll(thing, 'temperature', 1000, { onValue: jest.fn() });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(thing.readProperty).toHaveBeenCalledTimes(1);
+    finish(output(1));
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(thing.readProperty).toHaveBeenCalledTimes(2);
+
+    stop();
+  });
+
+  it('traces a shared read once, timing the request alone', async () => {
+    const tracer = jest.fn();
+    setPollTracer(tracer);
+    const thing = { readProperty: jest.fn(() => new Promise(resolve => setTimeout(() => resolve(output(21)), 200))) };
+    // A slow subscriber must not count towards the latency
+    const slow = () => new Promise<void>(resolve => setTimeout(resolve, 500));
+    const stops = [subscribePoll(thing, 'temperature', 1000, { onValue: slow }), subscribePoll(thing, 'temperature', 1000, { onValue: jest.fn() })];
+
+    await jest.advanceTimersByTimeAsync(1700);
+    expect(tracer).toHaveBeenCalledTimes(1);
+    expect(tracer).toHaveBeenCalledWith(thing, { operation: 'readproperty', properties: ['temperature'], ts: expect.any(Number), latencyMs: 200, value: 21 });
+
+    stops.forEach(stop => stop());
+    setPollTracer(undefined);
+  });
+
+  it('traces a batch read as one request', async () => {
+    const tracer = jest.fn();
+    setPollTracer(tracer);
+    const thing = {
+      readProperty: jest.fn(async () => output('single')),
+      readMultipleProperties: jest.fn(async (names: string[]) => Object.fromEntries(names.map(name => [name, output(name)]))),
+    };
+    const stops = [subscribePoll(thing, 'a', 1000, { onValue: jest.fn(), batch: true }), subscribePoll(thing, 'b', 1000, { onValue: jest.fn(), batch: true })];
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(tracer).toHaveBeenCalledTimes(1);
+    expect(tracer).toHaveBeenCalledWith(thing, expect.objectContaining({ operation: 'readmultipleproperties', properties: ['a', 'b'] }));
+
+    stops.forEach(stop => stop());
+    setPollTracer(undefined);
+  });
+
+  it('stops polling with the last subscriber', async () => {
+    const thing = { readProperty: jest.fn(async () => output(1)) };
+    const stop = subscribePoll(thing, 'temperature', 1000, { onValue: jest.fn() });
+    stop();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(thing.readProperty).not.toHaveBeenCalled();
+  });
+});
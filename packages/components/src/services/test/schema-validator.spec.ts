@@ -0,0 +1,78 @@
+import { formatSchemaIssues, validateAgainstSchema } from '../schema-validator';
+
+describe('validateAgainstSchema', () => {
+  it('accepts values matching the schema', () => {
+    expect(validateAgainstSchema(5, { type: 'integer', minimum: 0, maximum: 10 })).toEqual([]);
+    expect(validateAgainstSchema(2.5, { type: 'number', multipleOf: 0.5 })).toEqual([]);
+    expect(validateAgainstSchema('on', { type: 'string', enum: ['on', 'off'] })).toEqual([]);
+    expect(validateAgainstSchema({ r: 255 }, { type: 'object', required: ['r'], properties: { r: { type: 'integer' } } })).toEqual([]);
+  });
+
+  it('accepts anything without a schema', () => {
+    expect(validateAgainstSchema('x', undefined)).toEqual([]);
+  });
+
+  it('treats integers as numbers but not the reverse', () => {
+    expect(validateAgainstSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateAgainstSchema(3.5, { type: 'integer' })).toEqual([{ pointer: '', message: 'expected integer but got number' }]);
+  });
+
+  it('reports numeric bounds and steps', () => {
+    const schema = { type: 'number', minimum: 0, exclusiveMaximum: 10, multipleOf: 0.1 };
+    expect(validateAgainstSchema(-1, schema)).toEqual([{ pointer: '', message: 'must be >= 0' }]);
+    expect(validateAgainstSchema(10, schema)).toEqual([{ pointer: '', message: 'must be < 10' }]);
+    expect(validateAgainstSchema(0.3, schema)).toEqual([]);
+    expect(validateAgainstSchema(0.35, schema)).toEqual([{ pointer: '', message: 'must be a multiple of 0.1' }]);
+  });
+
+  it('reports string length, pattern and enum', () => {
+    expect(validateAgainstSchema('ab', { type: 'string', minLength: 3 })).toEqual([{ pointer: '', message: 'must be at least 3 characters' }]);
+    expect(validateAgainstSchema('abc', { type: 'string', pattern: '^[0-9]+$' })).toEqual([{ pointer: '', message: 'must match pattern ^[0-9]+$' }]);
+    expect(validateAgainstSchema('dim', { enum: ['on', 'off'] })).toEqual([{ pointer: '', message: 'must be one of "on", "off"' }]);
+  });
+
+  it('locates nested issues by JSON pointer', () => {
+    const schema = {
+      type: 'object',
+      required: ['name'],
+      properties: { 'a/b': { type: 'array', items: { type: 'integer', maximum: 9 } } },
+    };
+    expect(validateAgainstSchema({ 'a/b': [1, 12] }, schema)).toEqual([
+      { pointer: '/name', message: 'is required' },
+      { pointer: '/a~1b/1', message: 'must be <= 9' },
+    ]);
+  });
+
+  it('checks additional properties', () => {
+    const schema = { type: 'object', properties: { r: { type: 'integer' } } };
+    expect(validateAgainstSchema({ r: 1, g: 2 }, { ...schema, additionalProperties: false })).toEqual([{ pointer: '/g', message: 'is not allowed' }]);
+    expect(validateAgainstSchema({ r: 1, g: 'x' }, { ...schema, additionalProperties: { type: 'integer' } })).toEqual([
+      { pointer: '/g', message: 'expected integer but got string' },
+    ]);
+    expect(validateAgainstSchema({ r: 1, g: 2 }, { ...schema, additionalProperties: true })).toEqual([]);
+  });
+
+  it('matches own members only, not inherited ones', () => {
+    expect(validateAgainstSchema({}, { type: 'object', required: ['toString'] })).toEqual([{ pointer: '/toString', message: 'is required' }]);
+    expect(validateAgainstSchema({ constructor: 1 }, { type: 'object', properties: {}, additionalProperties: false })).toEqual([
+      { pointer: '/constructor', message: 'is not allowed' },
+    ]);
+  });
+
+  it('requires one matching oneOf option', () => {
+    const schema = { oneOf: [{ type: 'integer' }, { type: 'string' }] };
+    expect(validateAgainstSchema('x', schema)).toEqual([]);
+    expect(validateAgainstSchema(true, schema)).toEqual([{ pointer: '', message: 'does not match any of the allowed schemas' }]);
+  });
+});
+
+describe('formatSchemaIssues', () => {
+  it('joins issues with their pointers', () => {
+    expect(
+      formatSchemaIssues([
+        { pointer: '', message: 'must be >= 0' },
+        { pointer: '/r', message: 'is required' },
+      ]),
+    ).toBe('must be >= 0; /r is required');
+  });
+});
@@ -0,0 +1,83 @@
+import { computeBackoffDelay, superviseSubscription } from '../subscription-supervisor';
+
+describe('computeBackoffDelay', () => {
+  it('grows exponentially up to the maximum', () => {
+    const options = { initialDelayMs: 100, maxDelayMs: 1000, factor: 2, jitter: 0 };
+    expect([0, 1, 2, 3, 4, 5].map(attempt => computeBackoffDelay(attempt, options))).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  it('uses 1 s doubling up to 30 s by default', () => {
+    expect(computeBackoffDelay(0, { jitter: 0 })).toBe(1000);
+    expect(computeBackoffDelay(3, { jitter: 0 })).toBe(8000);
+    expect(computeBackoffDelay(10, { jitter: 0 })).toBe(30000);
+  });
+
+  it('spreads the delay by the jitter ratio', () => {
+    const random = jest.spyOn(Math, 'random');
+    random.mockReturnValue(0);
+    expect(computeBackoffDelay(0, { initialDelayMs: 1000, jitter: 0.5 })).toBe(500);
+    random.mockReturnValue(1);
+    expect(computeBackoffDelay(0, { initialDelayMs: 1000, jitter: 0.5 })).toBe(1500);
+    random.mockRestore();
+  });
+});
+
+describe('superviseSubscription', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('retries a failed subscription with backoff', async () => {
+    const subscribe = jest.fn().mockRejectedValueOnce(new Error('Failed to fetch')).mockResolvedValue({ unsubscribe: jest.fn() });
+    const onUp = jest.fn();
+    const onDown = jest.fn();
+    const supervisor = superviseSubscription({ subscribe, onUp, onDown, backoff: { initialDelayMs: 100, jitter: 0 } });
+
+    expect(await supervisor.start()).toBe(false);
+    expect(onDown).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(subscribe).toHaveBeenCalledTimes(2);
+    expect(onUp).toHaveBeenCalledTimes(1);
+    expect(supervisor.isUp()).toBe(true);
+    await supervisor.stop();
+  });
+
+  it('does not retry permanent rejections', async () => {
+    const subscribe = jest.fn().mockRejectedValue(new Error('observe not supported'));
+    const onDown = jest.fn();
+    const supervisor = superviseSubscription({ subscribe, onDown, isPermanent: () => true, backoff: { initialDelayMs: 100, jitter: 0 } });
+
+    expect(await supervisor.start()).toBe(false);
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect(onDown).toHaveBeenCalledTimes(1);
+  });
+
+  it('resubscribes after the subscription drops', async () => {
+    let dropped: (err: any) => void = () => undefined;
+    const subscribe = jest.fn(async (onError: (err: any) => void) => {
+      dropped = onError;
+      return { unsubscribe: jest.fn() };
+    });
+    const onDown = jest.fn();
+    const supervisor = superviseSubscription({ subscribe, onDown, backoff: { initialDelayMs: 50, jitter: 0 } });
+
+    await supervisor.start();
+    dropped(new Error('connection closed'));
+    expect(supervisor.isUp()).toBe(false);
+    expect(onDown).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(subscribe).toHaveBeenCalledTimes(2);
+    expect(supervisor.isUp()).toBe(true);
+    await supervisor.stop();
+  });
+
+  it('stops retrying once stopped', async () => {
+    const subscribe = jest.fn().mockRejectedValue(new Error('Failed to fetch'));
+    const supervisor = superviseSubscription({ subscribe, backoff: { initialDelayMs: 100, jitter: 0 } });
+
+    await supervisor.start();
+    await supervisor.stop();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(subscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { validateThingDescription } from '../td-validator';
+
+/** A valid TD with one property read over HTTP, with `overrides` merged in */
+function thingDescription(overrides: any = {}) {
+  return {
+    '@context': 'https://www.w3.org/2022/wot/td/v1.1',
+    'title': 'Lamp',
+    'securityDefinitions': { nosec_sc: { scheme: 'nosec' } },
+    'security': 'nosec_sc',
+    'properties': { brightness: { type: 'integer', forms: [{ href: 'http://lamp.local/brightness', op: ['readproperty', 'writeproperty'] }] } },
+    ...overrides,
+  };
+}
+
+/** A TD whose brightness property has the given form */
+function withForm(form: any, overrides: any = {}) {
+  return thingDescription({ properties: { brightness: { type: 'integer', forms: [form] } }, ...overrides });
+}
+
+describe('validateThingDescription', () => {
+  it('accepts a valid TD', () => {
+    expect(validateThingDescription(thingDescription())).toEqual({ valid: true, issues: [] });
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(validateThingDescription([])).toEqual({ valid: false, issues: [{ pointer: '', message: 'must be a JSON object', severity: 'error' }] });
+  });
+
+  it('resolves relative hrefs against base or the retrieval URL', () => {
+    const relative = withForm({ href: 'brightness' });
+    expect(validateThingDescription(relative)).toEqual({
+      valid: true,
+      issues: [
+        {
+          pointer: '/properties/brightness/forms/0/href',
+          message: 'relative href "brightness" has no base and resolves only against the URL the TD is retrieved from',
+          severity: 'warning',
+        },
+      ],
+    });
+    expect(validateThingDescription(relative, { retrievalUrl: 'http://lamp.local/td' }).issues).toEqual([]);
+    expect(validateThingDescription({ ...relative, base: 'http://lamp.local/' }).issues).toEqual([]);
+  });
+
+  it('reports operations not valid for the affordance', () => {
+    expect(validateThingDescription(withForm({ href: 'http://lamp.local/brightness', op: 'invokeaction' }))).toEqual({
+      valid: false,
+      issues: [{ pointer: '/properties/brightness/forms/0/op', message: '"invokeaction" is not a property operation', severity: 'error' }],
+    });
+  });
+
+  it('reports undefined security references, including inherited member names', () => {
+    const result = validateThingDescription(thingDescription({ security: ['nosec_sc', 'basic_sc', 'constructor'] }));
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => issue.message)).toEqual(['refers to undefined security definition "basic_sc"', 'refers to undefined security definition "constructor"']);
+  });
+
+  it('warns about undeclared URI variables', () => {
+    const result = validateThingDescription(withForm({ href: 'http://lamp.local/brightness{?unit,toString}' }, { uriVariables: { unit: { type: 'string' } } }));
+    expect(result).toEqual({
+      valid: true,
+      issues: [{ pointer: '/properties/brightness/forms/0/href', message: 'URI variable "toString" is not declared in uriVariables', severity: 'warning' }],
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { discoverThings, matchesThingQuery, summarizeThing } from '../thing-directory';
+
+/** A fetch Response stand-in with a JSON body and optional Link header */
+function response(body: any, link?: string) {
+  return { ok: true, status: 200, statusText: 'OK', headers: { get: (name: string) => (name === 'Link' ? (link ?? null) : null) }, json: async () => body };
+}
+
+/** TDs `lamp-<from>` … `lamp-<to - 1>` */
+function lamps(from: number, to: number) {
+  return Array.from({ length: to - from }, (_, index) => ({ id: `lamp-${from + index}`, title: `Lamp ${from + index}` }));
+}
+
+describe('discoverThings', () => {
+  it('pages by offset and limit while pages are full', async () => {
+    const fetch = jest.fn(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const offset = Number(params.get('offset'));
+      return response(lamps(offset, Math.min(offset + Number(params.get('limit')), 5)));
+    });
+
+    const things = await discoverThings('https://tdd.example.com', { pageSize: 2, fetch: fetch as any });
+    expect(things.map(thing => thing.id)).toEqual(['lamp-0', 'lamp-1', 'lamp-2', 'lamp-3', 'lamp-4']);
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://tdd.example.com/things?offset=0&limit=2',
+      'https://tdd.example.com/things?offset=2&limit=2',
+      'https://tdd.example.com/things?offset=4&limit=2',
+    ]);
+  });
+
+  it('follows Link rel="next" headers', async () => {
+    const fetch = jest.fn(async (url: string) => (url.includes('page=2') ? response(lamps(2, 3)) : response(lamps(0, 2), '</things?page=2>; rel="next"')));
+
+    const things = await discoverThings('https://tdd.example.com/things', { fetch: fetch as any });
+    expect(things.map(thing => thing.id)).toEqual(['lamp-0', 'lamp-1', 'lamp-2']);
+    expect(fetch.mock.calls[1][0]).toBe('https://tdd.example.com/things?page=2');
+  });
+
+  it('follows the next member of a ThingCollection', async () => {
+    const fetch = jest.fn(async (url: string) => (url.includes('page=2') ? response({ members: lamps(2, 3) }) : response({ members: lamps(0, 2), next: '/things?page=2' })));
+
+    const things = await discoverThings('https://tdd.example.com', { fetch: fetch as any });
+    expect(things.map(thing => thing.id)).toEqual(['lamp-0', 'lamp-1', 'lamp-2']);
+  });
+
+  it('stops at maxResults and filters by query', async () => {
+    const fetch = jest.fn(async () => response(lamps(0, 20)));
+
+    expect(await discoverThings('https://tdd.example.com', { maxResults: 3, fetch: fetch as any })).toHaveLength(3);
+    expect((await discoverThings('https://tdd.example.com', { query: 'lamp-17', fetch: fetch as any })).map(thing => thing.id)).toEqual(['lamp-17']);
+  });
+
+  it('does not loop on directories repeating the same page', async () => {
+    const fetch = jest.fn(async () => response(lamps(0, 2)));
+
+    expect(await discoverThings('https://tdd.example.com', { pageSize: 2, fetch: fetch as any })).toHaveLength(2);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects failed requests', async () => {
+    const fetch = jest.fn(async () => ({ ...response([]), ok: false, status: 503, statusText: 'Service Unavailable' }));
+
+    await expect(discoverThings('https://tdd.example.com', { fetch: fetch as any })).rejects.toThrow('503 Service Unavailable');
+  });
+});
+
+describe('summarizeThing', () => {
+  it('points to the retrieval endpoint of the directory', () => {
+    const summary = summarizeThing({ 'id': 'urn:lamp', 'title': 'Lamp', '@type': 'saref:LightSwitch', 'properties': { on: {} } }, 'https://tdd.example.com/things?offset=0');
+    expect(summary.url).toBe('https://tdd.example.com/things/urn%3Alamp');
+    expect(summary.types).toEqual(['saref:LightSwitch']);
+    expect(summary.properties).toEqual(['on']);
+    expect(matchesThingQuery(summary, 'light on')).toBe(true);
+  });
+});
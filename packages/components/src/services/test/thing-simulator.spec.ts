@@ -0,0 +1,94 @@
+import { createSimulatedThing, generateSchemaValue } from '../thing-simulator';
+
+/** A TD with a writable `brightness` and a read-only `temperature` */
+const td = {
+  title: 'Lamp',
+  properties: {
+    brightness: { type: 'integer', minimum: 0, maximum: 100 },
+    temperature: { type: 'number', exclusiveMinimum: -10, exclusiveMaximum: 40, readOnly: true },
+  },
+};
+
+describe('thing simulator', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps generated numbers inside their bounds, excluding exclusive ones', () => {
+    const schemas = [
+      { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+      { type: 'integer', exclusiveMinimum: 0, exclusiveMaximum: 10 },
+      { type: 'number', minimum: 0.5, maximum: 9.5, multipleOf: 1 },
+    ];
+    const random = jest.spyOn(Math, 'random');
+    for (const extreme of [0, 0.99999]) {
+      random.mockReturnValue(extreme);
+      const [fraction, integer, multiple] = schemas.map(schema => generateSchemaValue(schema));
+      expect(fraction).toBeGreaterThan(0);
+      expect(fraction).toBeLessThan(1);
+      expect(integer).toBeGreaterThan(0);
+      expect(integer).toBeLessThan(10);
+      expect(multiple).toBeGreaterThanOrEqual(0.5);
+      expect(multiple).toBeLessThanOrEqual(9.5);
+      expect(Number.isInteger(multiple)).toBe(true);
+    }
+  });
+
+  it('keeps changing read-only properties inside their bounds', async () => {
+    jest.useFakeTimers();
+    const thing = createSimulatedThing(td, { changeIntervalMs: 10 });
+    const random = jest.spyOn(Math, 'random');
+    for (const extreme of [0, 0.99999]) {
+      random.mockReturnValue(extreme);
+      for (let i = 0; i < 50; i++) {
+        jest.advanceTimersByTime(10);
+        const value = await (await thing.readProperty('temperature')).value();
+        expect(value).toBeGreaterThan(-10);
+        expect(value).toBeLessThan(40);
+      }
+    }
+    jest.useRealTimers();
+  });
+
+  it('rejects writes to read-only properties', async () => {
+    const thing = createSimulatedThing(td);
+    await expect(thing.writeProperty('temperature', 20)).rejects.toMatchObject({ status: 400, message: expect.stringContaining('read-only') });
+  });
+
+  it('rejects writes outside the schema', async () => {
+    const thing = createSimulatedThing(td);
+    await expect(thing.writeProperty('brightness', 150)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('echoes writes to readers and observers', async () => {
+    const thing = createSimulatedThing(td);
+    const listener = jest.fn();
+    const subscription = await thing.observeProperty('brightness', listener);
+
+    await thing.writeProperty('brightness', 42);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(await listener.mock.calls[0][0].value()).toBe(42);
+    expect(await (await thing.readProperty('brightness')).value()).toBe(42);
+
+    await subscription.unsubscribe();
+    await thing.writeProperty('brightness', 43);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails requests at the failure rate as if the device were unreachable', async () => {
+    const thing = createSimulatedThing(td, { failureRate: 0.5 });
+    const random = jest.spyOn(Math, 'random');
+
+    random.mockReturnValue(0.4);
+    await expect(thing.readProperty('brightness')).rejects.toMatchObject({ name: 'NetworkError' });
+    await expect(thing.writeProperty('brightness', 10)).rejects.toMatchObject({ name: 'NetworkError' });
+
+    random.mockReturnValue(0.6);
+    await expect(thing.writeProperty('brightness', 10)).resolves.toBeUndefined();
+    expect(await (await thing.readProperty('brightness')).value()).toBe(10);
+  });
+
+  it('never fails requests without a failure rate', async () => {
+    const thing = createSimulatedThing(td);
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    await expect(thing.readProperty('brightness')).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { convertUnit, formatUnit, getPreferredUnit, hasUnitCounterpart, registerUnit, resolveUnit, setUnitSystem, subscribeUnitSystem } from '../unit-registry';
+
+describe('resolveUnit', () => {
+  it('finds units by symbol, alias, IRI, CURIE and UCUM code', () => {
+    expect(resolveUnit('°C')?.symbol).toBe('°C');
+    expect(resolveUnit('celsius')?.symbol).toBe('°C');
+    expect(resolveUnit('http://qudt.org/vocab/unit/DEG_C')?.symbol).toBe('°C');
+    expect(resolveUnit('om:degreeFahrenheit')?.symbol).toBe('°F');
+    expect(resolveUnit('[mi_i]')?.symbol).toBe('mi');
+  });
+
+  it('returns undefined for unknown units', () => {
+    expect(resolveUnit('furlong')).toBeUndefined();
+    expect(resolveUnit(undefined)).toBeUndefined();
+  });
+
+  it('resolves registered units', () => {
+    registerUnit({ symbol: 'kn', quantity: 'speed', factor: 1852 / 3600, aliases: ['knot'] });
+    expect(convertUnit(10, 'knot', 'km/h')).toBe(18.52);
+  });
+});
+
+describe('formatUnit', () => {
+  it('shows symbols, or the local name of unknown IRIs', () => {
+    expect(formatUnit('qudt:DEG_F')).toBe('°F');
+    expect(formatUnit('http://example.com/units#furlong')).toBe('furlong');
+    expect(formatUnit('furlong')).toBe('furlong');
+  });
+});
+
+describe('convertUnit', () => {
+  it('converts linearly with offsets', () => {
+    expect(convertUnit(100, '°C', '°F')).toBe(212);
+    expect(convertUnit(32, '°F', 'K')).toBe(273.15);
+    expect(convertUnit(1, 'mi', 'km')).toBe(1.609344);
+  });
+
+  it('rejects unknown units and different quantities', () => {
+    expect(() => convertUnit(1, 'furlong', 'm')).toThrow('Unknown unit "furlong"');
+    expect(() => convertUnit(1, 'kg', 'm')).toThrow('Cannot convert kg (mass) to m (length)');
+  });
+});
+
+describe('unit systems', () => {
+  afterEach(() => setUnitSystem(undefined));
+
+  it('prefers the counterpart of units from the other system', () => {
+    expect(getPreferredUnit('°C', 'imperial')?.symbol).toBe('°F');
+    expect(getPreferredUnit('°C', 'metric')).toBeUndefined();
+    expect(getPreferredUnit('W', 'imperial')).toBeUndefined();
+    expect(getPreferredUnit('°C', undefined)).toBeUndefined();
+  });
+
+  it('tells units that change with the unit system', () => {
+    expect(hasUnitCounterpart('lb')).toBe(true);
+    expect(hasUnitCounterpart('%')).toBe(false);
+    expect(hasUnitCounterpart(undefined)).toBe(false);
+  });
+
+  it('notifies listeners of changes only', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeUnitSystem(listener);
+    setUnitSystem('imperial');
+    setUnitSystem('imperial');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('imperial');
+    expect(getPreferredUnit('km')?.symbol).toBe('mi');
+
+    unsubscribe();
+    setUnitSystem('metric');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
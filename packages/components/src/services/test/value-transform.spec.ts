@@ -0,0 +1,98 @@
+import { compileTransform, parseTransformAttr, registerTransform, transformSchema } from '../value-transform';
+
+describe('compileTransform', () => {
+  it('runs steps in order when reading and their inverses in reverse when writing', () => {
+    const transform = compileTransform([{ scale: 0.1 }, { offset: -273.15 }, { round: 1 }]);
+    expect(transform.read(2980.5)).toBe(24.9);
+    expect(transform.write(25)).toBe(2981.5);
+  });
+
+  it('rounds writes to integer properties', () => {
+    expect(compileTransform([{ scale: 0.1 }], { type: 'integer' }).write(2.54)).toBe(25);
+  });
+
+  it('maps device codes to labels by own keys only', () => {
+    const transform = compileTransform([{ map: { 0: 'off', 1: 'on', true: 'yes' } }]);
+    expect(transform.read(1)).toBe('on');
+    expect(transform.read(true)).toBe('yes');
+    expect(transform.read('constructor')).toBe('constructor');
+    expect(transform.write('off')).toBe(0);
+    expect(transform.write('yes')).toBe(true);
+  });
+
+  it('inverts booleans in both directions', () => {
+    const transform = compileTransform(['invert']);
+    expect(transform.read(true)).toBe(false);
+    expect(transform.write(false)).toBe(true);
+    expect(transform.read(1)).toBe(1);
+  });
+
+  it('converts from the schema unit and reports the displayed unit', () => {
+    const transform = compileTransform(undefined, { type: 'number', unit: 'degreeCelsius' }, '°F');
+    expect(transform.read(100)).toBe(212);
+    expect(transform.write(32)).toBe(0);
+    expect(transform.unit).toBe('°F');
+  });
+
+  it('lets unit steps of the spec take precedence over the preferred unit', () => {
+    const transform = compileTransform([{ unit: 'K' }], { type: 'number', unit: '°C' }, '°F');
+    expect(transform.read(20)).toBe(20);
+    expect(transform.unit).toBe('K');
+  });
+
+  it('runs registered transforms by name', () => {
+    registerTransform('percent', { read: value => value * 100, write: value => value / 100 });
+    const transform = compileTransform(['percent']);
+    expect(transform.read(0.5)).toBe(50);
+    expect(transform.write(25)).toBe(0.25);
+  });
+
+  it('rejects unknown transforms and impossible conversions', () => {
+    expect(() => compileTransform(['missing'])).toThrow('Unknown transform "missing"');
+    expect(() => compileTransform([{ scale: 0 }])).toThrow('transform scale must be a non-zero number');
+    expect(() => compileTransform(undefined, { unit: 'kg' }, '°F')).toThrow('Cannot convert kg (mass) to °F (temperature)');
+    expect(() => compileTransform(undefined, {}, '°F')).toThrow('the value has no known unit');
+  });
+
+  it('returns undefined without steps', () => {
+    expect(compileTransform([])).toBeUndefined();
+  });
+});
+
+describe('transformSchema', () => {
+  it('expresses bounds and steps in display units', () => {
+    const schema = { type: 'number', unit: '°C', minimum: 0, maximum: 100, multipleOf: 0.5 };
+    expect(transformSchema(schema, compileTransform(undefined, schema, '°F'))).toEqual({ type: 'number', unit: '°F', minimum: 32, maximum: 212, multipleOf: 0.9 });
+  });
+
+  it('keeps exclusive bounds exclusive', () => {
+    const schema = { type: 'number', exclusiveMinimum: 0, maximum: 10 };
+    expect(transformSchema(schema, compileTransform([{ scale: 10 }]))).toEqual({ type: 'number', exclusiveMinimum: 0, maximum: 100 });
+  });
+
+  it('swaps bounds with their exclusiveness for a negative scale', () => {
+    const schema = { type: 'number', exclusiveMinimum: 1, maximum: 10 };
+    expect(transformSchema(schema, compileTransform([{ scale: -1 }]))).toEqual({ type: 'number', minimum: -10, exclusiveMaximum: -1 });
+  });
+
+  it('leaves non-numeric schemas unchanged', () => {
+    const schema = { type: 'integer', enum: [0, 1] };
+    expect(transformSchema({ type: 'string' }, compileTransform(['invert']))).toEqual({ type: 'string' });
+    expect(transformSchema(schema, undefined)).toBe(schema);
+  });
+});
+
+describe('parseTransformAttr', () => {
+  it('parses the shorthand with JSON arguments and bare names', () => {
+    expect(parseTransformAttr('offset:-273.15 | round:1 | unit:°C | invert')).toEqual([{ offset: -273.15 }, { round: 1 }, { unit: '°C' }, 'invert']);
+  });
+
+  it('parses JSON step lists and single steps', () => {
+    expect(parseTransformAttr('[{"scale": 0.1}, "invert"]')).toEqual([{ scale: 0.1 }, 'invert']);
+    expect(parseTransformAttr('{"map": {"0": "off"}}')).toEqual([{ map: { 0: 'off' } }]);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseTransformAttr('[{"scale": }]')).toThrow('td-transform contains invalid JSON');
+  });
+});
@@ -0,0 +1,90 @@
+import { discardQueuedWrites, enqueueWrite, getLastQueuedValue, getQueuedWrites, hasQueuedWrites, QueuedWrite, replayWrites } from '../write-queue';
+
+/** A queued write of `value` that reads 10 from the device and writes successfully, unless overridden */
+function queuedWrite(value: any, overrides: Partial<QueuedWrite> = {}): QueuedWrite {
+  return {
+    propertyName: 'brightness',
+    value,
+    queuedAt: Date.now(),
+    read: jest.fn(async () => 10),
+    write: jest.fn(async () => undefined),
+    isUnreachable: err => err?.name === 'NetworkError',
+    onSettled: jest.fn(),
+    ...overrides,
+  };
+}
+
+describe('write queue', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => {
+    discardQueuedWrites();
+    jest.useRealTimers();
+  });
+
+  it('replays queued writes in order', async () => {
+    const sent: any[] = [];
+    const first = queuedWrite(20, { write: jest.fn(async () => void sent.push(20)) });
+    const second = queuedWrite(30, { write: jest.fn(async () => void sent.push(30)) });
+    enqueueWrite('thing', first);
+    enqueueWrite('thing', second);
+    expect(hasQueuedWrites('thing')).toBe(true);
+    expect(getLastQueuedValue('thing', 'brightness')).toEqual({ value: 30 });
+
+    await replayWrites('thing');
+    expect(sent).toEqual([20, 30]);
+    expect(first.onSettled).toHaveBeenCalledWith({ status: 'written' });
+    expect(second.onSettled).toHaveBeenCalledWith({ status: 'written' });
+    expect(hasQueuedWrites('thing')).toBe(false);
+  });
+
+  it('reports a conflict when the device value changed meanwhile', async () => {
+    const write = queuedWrite(20, { expected: 5 });
+    enqueueWrite('thing', write);
+
+    await replayWrites('thing');
+    expect(write.write).not.toHaveBeenCalled();
+    expect(write.onSettled).toHaveBeenCalledWith({ status: 'conflict', current: 10 });
+  });
+
+  it('overwrites a changed value when asked to', async () => {
+    const write = queuedWrite(20, { expected: 5, overwriteConflicts: true });
+    enqueueWrite('thing', write);
+
+    await replayWrites('thing');
+    expect(write.read).not.toHaveBeenCalled();
+    expect(write.onSettled).toHaveBeenCalledWith({ status: 'written' });
+  });
+
+  it('keeps writes queued while the Thing is still unreachable', async () => {
+    const offline = Object.assign(new Error('Failed to fetch'), { name: 'NetworkError' });
+    const write = queuedWrite(20, { write: jest.fn().mockRejectedValueOnce(offline).mockResolvedValue(undefined), backoff: { initialDelayMs: 1000, factor: 1, jitter: 0 } });
+    enqueueWrite('thing', write);
+
+    await replayWrites('thing');
+    expect(write.onSettled).not.toHaveBeenCalled();
+    expect(getQueuedWrites('thing')).toEqual([{ source: 'thing', propertyName: 'brightness', value: 20, queuedAt: write.queuedAt }]);
+
+    // Retried after the backoff delay
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(write.onSettled).toHaveBeenCalledWith({ status: 'written' });
+  });
+
+  it('drops a write the device rejected', async () => {
+    const rejected = Object.assign(new Error('Bad Request'), { status: 400 });
+    const write = queuedWrite(20, { write: jest.fn().mockRejectedValue(rejected) });
+    enqueueWrite('thing', write);
+
+    await replayWrites('thing');
+    expect(write.onSettled).toHaveBeenCalledWith({ status: 'failed', error: rejected });
+    expect(hasQueuedWrites('thing')).toBe(false);
+  });
+
+  it('discards queued writes', () => {
+    const write = queuedWrite(20);
+    enqueueWrite('thing', write);
+
+    expect(discardQueuedWrites('thing')).toBe(1);
+    expect(write.onSettled).toHaveBeenCalledWith({ status: 'discarded' });
+    expect(getQueuedWrites()).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import { createWriteScheduler } from '../write-scheduler';
+
+/** A send function whose calls stay in flight until resolved by hand */
+function manualSend() {
+  const calls: { value: any; resolve: (result?: any) => void; reject: (err: any) => void }[] = [];
+  const send = jest.fn((value: any) => new Promise<any>((resolve, reject) => calls.push({ value, resolve, reject })));
+  return { send, calls };
+}
+
+describe('createWriteScheduler', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('sends a value right away without timing', async () => {
+    const send = jest.fn(async (value: any) => `ok ${value}`);
+    const writes = createWriteScheduler(send);
+
+    await expect(writes.schedule(1)).resolves.toEqual({ status: 'written', result: 'ok 1' });
+    expect(send).toHaveBeenCalledWith(1);
+  });
+
+  it('debounces rapid values and sends the last one', async () => {
+    const send = jest.fn(async () => undefined);
+    const writes = createWriteScheduler(send, { debounceMs: 200 });
+    const first = writes.schedule(1);
+    await jest.advanceTimersByTimeAsync(100);
+    const second = writes.schedule(2);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(send).not.toHaveBeenCalled();
+
+    await expect(first).resolves.toEqual({ status: 'superseded' });
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(second).resolves.toEqual({ status: 'written', result: undefined });
+    expect(send.mock.calls).toEqual([[2]]);
+  });
+
+  it('throttles values to one per interval, the latest one', async () => {
+    const send = jest.fn(async () => undefined);
+    const writes = createWriteScheduler(send, { throttleMs: 500 });
+    void writes.schedule(1);
+    await jest.advanceTimersByTimeAsync(0);
+    void writes.schedule(2);
+    void writes.schedule(3);
+    await jest.advanceTimersByTimeAsync(400);
+    expect(send.mock.calls).toEqual([[1]]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(send.mock.calls).toEqual([[1], [3]]);
+  });
+
+  it('drops the response of a write superseded while in flight', async () => {
+    const { send, calls } = manualSend();
+    const writes = createWriteScheduler(send);
+    const first = writes.schedule(1);
+    const second = writes.schedule(2);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(writes.isBusy()).toBe(true);
+
+    calls[0].resolve('late');
+    await expect(first).resolves.toEqual({ status: 'superseded' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(calls[1].value).toBe(2);
+
+    calls[1].resolve('latest');
+    await expect(second).resolves.toEqual({ status: 'written', result: 'latest' });
+    expect(writes.isBusy()).toBe(false);
+  });
+
+  it('rejects only when the latest write failed', async () => {
+    const { send, calls } = manualSend();
+    const writes = createWriteScheduler(send);
+    const first = writes.schedule(1);
+    const second = writes.schedule(2);
+
+    calls[0].reject(new Error('first failed'));
+    await expect(first).resolves.toEqual({ status: 'superseded' });
+    await jest.advanceTimersByTimeAsync(0);
+    calls[1].reject(new Error('second failed'));
+    await expect(second).rejects.toThrow('second failed');
+  });
+
+  it('sends a waiting write on flush', async () => {
+    const send = jest.fn(async () => undefined);
+    const writes = createWriteScheduler(send, { debounceMs: 1000 });
+    const write = writes.schedule(1);
+
+    writes.flush();
+    await expect(write).resolves.toEqual({ status: 'written', result: undefined });
+    expect(send).toHaveBeenCalledWith(1);
+  });
+
+  it('marks reads stale until the latest write settled', async () => {
+    const { send, calls } = manualSend();
+    const writes = createWriteScheduler(send);
+    const readBefore = Date.now();
+    await jest.advanceTimersByTimeAsync(10);
+    const write = writes.schedule(1);
+    expect(writes.isStale(Date.now())).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(10);
+    calls[0].resolve();
+    await write;
+    expect(writes.isStale(readBefore)).toBe(true);
+    await jest.advanceTimersByTimeAsync(10);
+    expect(writes.isStale(Date.now())).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { ThingDescription } from './browser-bundle-connect';
+
+/**
+ * Discovery of Things through a W3C Thing Description Directory (TDD) API.
+ *
+ */
+
+/** What a discovered Thing offers, for listing and picking it. */
+export type ThingSummary = {
+  id?: string;
+  title: string;
+  description?: string;
+  /** Semantic types from `@type` */
+  types: string[];
+  /** URL to consume the Thing from (the directory retrieval endpoint); undefined when the TD has no id */
+  url?: string;
+  properties: string[];
+  actions: string[];
+  events: string[];
+  modified?: string;
+  /** The full Thing Description */
+  td: ThingDescription;
+};
+
+/** Options of `discoverThings()`. */
+export type DiscoverThingsOptions = {
+  /** Keep only Things whose title, description, id, types or affordance names contain every word */
+  query?: string;
+  /** Number of TDs requested per page (default 100) */
+  pageSize?: number;
+  /** Stop after this many matching Things */
+  maxResults?: number;
+  /** Extra request headers, e.g. an `Authorization` for protected directories */
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Fetch implementation, e.g. a local directory stand-in (default `window.fetch`) */
+  fetch?: typeof fetch;
+};
+
+/** Safety limit on followed pages, against directories that ignore paging */
+const MAX_PAGES = 1000;
+
+/** Build the `/things` listing URL of a directory; a URL already ending in `/things` is used as is. */
+function getListingUrl(directory: string, offset: number, limit: number): string {
+  const url = new URL(directory, typeof location !== 'undefined' ? location.href : undefined);
+  if (!/\/things\/?$/.test(url.pathname)) url.pathname = `${url.pathname.replace(/\/$/, '')}/things`;
+  url.searchParams.set('offset', String(offset));
+  url.searchParams.set('limit', String(limit));
+  return url.toString();
+}
+
+/** Get the `rel="next"` target of a Link header. */
+function getNextLink(header: string | null, base: string): string | undefined {
+  for (const part of header?.split(',') ?? []) {
+    const match = part.match(/<([^>]+)>\s*;.*rel="?next"?/);
+    if (match) return new URL(match[1], base).toString();
+  }
+  return undefined;
+}
+
+/** Summarize a TD; `listingUrl` locates the retrieval endpoint `/things/{id}`. */
+export function summarizeThing(td: ThingDescription, listingUrl?: string): ThingSummary {
+  const types = td['@type'] === undefined ? [] : Array.isArray(td['@type']) ? td['@type'] : [td['@type']];
+  let url: string | undefined;
+  if (td.id && listingUrl) {
+    const endpoint = new URL(listingUrl);
+    endpoint.search = '';
+    endpoint.pathname = `${endpoint.pathname.replace(/\/$/, '')}/${encodeURIComponent(td.id)}`;
+    url = endpoint.toString();
+  }
+  return {
+    id: td.id,
+    title: td.title ?? td.id ?? 'Untitled Thing',
+    description: td.description,
+    types: types.map(String),
+    url,
+    properties: Object.keys(td.properties ?? {}),
+    actions: Object.keys(td.actions ?? {}),
+    events: Object.keys(td.events ?? {}),
+    modified: td.modified,
+    td,
+  };
+}
+
+/** Check a summary against a text query; every word must appear in one of its fields. */
+export function matchesThingQuery(summary: ThingSummary, query?: string): boolean {
+  const words = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return true;
+  const text = [summary.title, summary.description, summary.id, ...summary.types, ...summary.properties, ...summary.actions, ...summary.events]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return words.every(word => text.includes(word));
+}
+
+/**
+ * Query a Thing Description Directory for its Things.
+ * Pages are followed through the `Link: rel="next"` header (or the `next` member of a ThingCollection),
+ * and by offset when the directory returns full pages without links.
+ *
+ * @param directory - Base URL of the directory, or its `/things` endpoint
+ * @returns Summaries of the matching Things, in directory order
+ */
+export async function discoverThings(directory: string, options: DiscoverThingsOptions = {}): Promise<ThingSummary[]> {
+  const fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  const pageSize = options.pageSize ?? 100;
+  const results: ThingSummary[] = [];
+  const seen = new Set<string>();
+  let next: string | undefined = getListingUrl(directory, 0, pageSize);
+  let offset = 0;
+
+  for (let page = 0; next && page < MAX_PAGES; page++) {
+    const requestUrl = next;
+    const response = await fetchImpl(requestUrl, { headers: { Accept: 'application/td+json, application/json', ...options.headers }, signal: options.signal });
+    if (!response.ok) throw new Error(`Failed to query TD Directory: ${response.status} ${response.statusText}`);
+    const body = await response.json();
+    const items: ThingDescription[] = Array.isArray(body) ? body : (body?.members ?? body?.items ?? []);
+
+    let added = 0;
+    for (const td of items) {
+      const key = td?.id ?? JSON.stringify(td);
+      if (!td || seen.has(key)) continue;
+      seen.add(key);
+      added++;
+      const summary = summarizeThing(td, requestUrl);
+      if (!matchesThingQuery(summary, options.query)) continue;
+      results.push(summary);
+      if (options.maxResults !== undefined && results.length >= options.maxResults) return results;
+    }
+
+    offset += items.length;
+    next = getNextLink(response.headers.get('Link'), requestUrl) ?? (body?.next ? new URL(body.next, requestUrl).toString() : undefined);
+    // Directories without paging links: keep going while pages are full and bring new Things
+    if (!next && items.length >= pageSize && added > 0) next = getListingUrl(directory, offset, pageSize);
+  }
+  return results;
+}
@@ -0,0 +1,286 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { formatSchemaIssues, validateAgainstSchema } from './schema-validator';
+
+/**
+ * In-browser simulated Things: a consumed-Thing look-alike generated from a TD, to run dashboards without hardware.
+ *
+ */
+
+/** Settings of a simulated Thing. */
+export type SimulatorOptions = {
+  /** Delay of every request in ms, fixed or as a `[min, max]` range (default 0) */
+  latencyMs?: number | [number, number];
+  /** Probability (0..1) that a request fails as if the device were unreachable (default 0) */
+  failureRate?: number;
+  /** Interval at which every subscribed event is emitted (default 5000) */
+  eventIntervalMs?: number;
+  /** Interval at which read-only properties change and observers are notified (default 2000) */
+  changeIntervalMs?: number;
+};
+
+/** A listener registered with `observeProperty` or `subscribeEvent`. */
+type Listener = (output: any) => void;
+
+/** Copy a value so callers cannot change the simulated state. */
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** An error the simulated device answered with, carrying its status code like a protocol client error. */
+function requestError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/** Random integer in `[min, max]`. */
+function randomInt(min: number, max: number): number {
+  return Math.floor(min + Math.random() * (max - min + 1));
+}
+
+/** Difference between neighbouring generated values of a numeric schema. */
+function numericStep(schema: any): number {
+  if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) return schema.multipleOf;
+  return schema.type === 'integer' ? 1 : 0.01;
+}
+
+/** Inclusive numeric bounds of a schema, defaulting to 0..100; exclusive bounds are moved inwards by one step. */
+function numericRange(schema: any): [number, number] {
+  const step = numericStep(schema);
+  const min = schema.minimum ?? (typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum + step : 0);
+  const max = schema.maximum ?? (typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum - step : min + 100);
+  return [min, Math.max(min, max)];
+}
+
+/** Round a number to the precision the schema allows, without leaving its bounds. */
+function snapNumber(value: number, schema: any): number {
+  const [min, max] = numericRange(schema);
+  const step = numericStep(schema);
+  // toFixed drops the binary noise of multiplying by steps like 0.01
+  const snap = (n: number, round: (n: number) => number) => Number((round(n / step) * step).toFixed(10));
+  const next = snap(Math.min(max, Math.max(min, value)), Math.round);
+  if (next < min) return snap(min, Math.ceil);
+  if (next > max) return snap(max, Math.floor);
+  return next;
+}
+
+/** Generate a string matching common formats. */
+function generateString(schema: any): string {
+  const now = new Date();
+  if (schema.format === 'date-time') return now.toISOString();
+  if (schema.format === 'date') return now.toISOString().slice(0, 10);
+  if (schema.format === 'time') return now.toISOString().slice(11, 19);
+  if (schema.format === 'uri' || schema.format === 'iri') return 'http://example.com/simulated';
+  if (schema.format === 'email') return 'device@example.com';
+  const text = `${schema.title ?? 'Simulated'} ${randomInt(1, 99)}`;
+  const minLength = schema.minLength ?? 0;
+  const padded = text.length < minLength ? text.padEnd(minLength, 'x') : text;
+  return typeof schema.maxLength === 'number' ? padded.slice(0, schema.maxLength) : padded;
+}
+
+/**
+ * Generate a plausible value for a DataSchema: `const`, `default` and `enum` are honoured, numbers stay within
+ * their bounds, and arrays and objects are filled from their item and member schemas.
+ */
+export function generateSchemaValue(schema: any): any {
+  if (!schema || typeof schema !== 'object') return undefined;
+  if ('const' in schema) return copy(schema.const);
+  if ('default' in schema) return copy(schema.default);
+  if (Array.isArray(schema.enum) && schema.enum.length) return copy(schema.enum[randomInt(0, schema.enum.length - 1)]);
+  if (Array.isArray(schema.oneOf) && schema.oneOf.length) return generateSchemaValue(schema.oneOf[0]);
+
+  const type = schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  switch (type) {
+    case 'boolean':
+      return Math.random() < 0.5;
+    case 'integer':
+    case 'number': {
+      const [min, max] = numericRange(schema);
+      return snapNumber(min + Math.random() * (max - min), schema);
+    }
+    case 'string':
+      return generateString(schema);
+    case 'array': {
+      const count = Math.min(schema.maxItems ?? 3, Math.max(schema.minItems ?? 0, 3));
+      if (Array.isArray(schema.items)) return schema.items.map((item: any) => generateSchemaValue(item));
+      return Array.from({ length: count }, () => generateSchemaValue(schema.items ?? { type: 'number' }));
+    }
+    case 'object':
+      return Object.fromEntries(Object.entries<any>(schema.properties ?? {}).map(([key, member]) => [key, generateSchemaValue(member)]));
+    case 'null':
+      return null;
+    default:
+      return undefined;
+  }
+}
+
+/** Next value of a changing property: numbers drift within their bounds, booleans flip now and then. */
+function driftValue(schema: any, previous: any): any {
+  if (!schema || 'const' in schema) return previous;
+  if (typeof previous === 'number' && (schema.type === 'number' || schema.type === 'integer')) {
+    const [min, max] = numericRange(schema);
+    const step = Math.max((max - min) * 0.05, schema.type === 'integer' ? 1 : 0.01);
+    return snapNumber(previous + (Math.random() * 2 - 1) * step, schema);
+  }
+  if (typeof previous === 'boolean') return Math.random() < 0.1 ? !previous : previous;
+  if (schema.format === 'date-time' || schema.format === 'date' || schema.format === 'time') return generateString(schema);
+  if (schema.type === 'object' && previous && typeof previous === 'object') {
+    return Object.fromEntries(Object.entries<any>(previous).map(([key, member]) => [key, driftValue(schema.properties?.[key], member)]));
+  }
+  return previous;
+}
+
+/** Wrap a value like a node-wot InteractionOutput. */
+function toOutput(value: any, schema: any): any {
+  return {
+    schema,
+    dataUsed: false,
+    value: async () => copy(value),
+    arrayBuffer: async () => new TextEncoder().encode(JSON.stringify(value ?? null)).buffer,
+  };
+}
+
+/** Read the value of an InteractionInput, which may itself be an output. */
+async function fromInput(input: any): Promise<any> {
+  return input && typeof input.value === 'function' ? input.value() : input;
+}
+
+/**
+ * Create a simulated Thing for a TD. It offers the consumed-Thing surface the connection layer uses
+ * (`readProperty`, `writeProperty`, `observeProperty`, `invokeAction`, `subscribeEvent`, batch reads):
+ * - Property values are generated from their DataSchemas; read-only properties keep changing.
+ * - Writes are validated against the schema and echoed to readers and observers.
+ * - Actions validate their input and answer with a value generated from their output schema.
+ * - Subscribed events are emitted periodically with generated data.
+ * - `latencyMs` and `failureRate` delay and fail requests, to try loading and offline states.
+ */
+export function createSimulatedThing(td: any, options: SimulatorOptions = {}): any {
+  const properties: Record<string, any> = td?.properties ?? {};
+  const actions: Record<string, any> = td?.actions ?? {};
+  const events: Record<string, any> = td?.events ?? {};
+  const changeIntervalMs = options.changeIntervalMs ?? 2000;
+  const eventIntervalMs = options.eventIntervalMs ?? 5000;
+
+  const values = new Map<string, { value: any; changedAt: number }>();
+  const observers = new Map<string, Set<Listener>>();
+  const changeTimers = new Map<string, ReturnType<typeof setInterval>>();
+
+  /** Wait for the configured latency, then fail at the configured rate. */
+  const simulateRequest = async (operation: string, name?: string) => {
+    const latency = options.latencyMs;
+    const delay = Array.isArray(latency) ? randomInt(latency[0], latency[1]) : (latency ?? 0);
+    if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+    if (options.failureRate && Math.random() < options.failureRate) {
+      throw Object.assign(new Error(`Simulated failure: ${operation}${name ? ` ${name}` : ''}`), { name: 'NetworkError' });
+    }
+  };
+
+  const getProperty = (name: string) => {
+    if (!properties[name]) throw requestError(404, `404 Not Found: no property "${name}" in TD`);
+    return properties[name];
+  };
+
+  /** Current value of a property; read-only properties move on once per change interval. */
+  const currentValue = (name: string) => {
+    const schema = getProperty(name);
+    let state = values.get(name);
+    if (!state) {
+      state = { value: generateSchemaValue(schema), changedAt: Date.now() };
+      values.set(name, state);
+    } else if (schema.readOnly && Date.now() - state.changedAt >= changeIntervalMs) {
+      state.value = driftValue(schema, state.value);
+      state.changedAt = Date.now();
+    }
+    return state.value;
+  };
+
+  /** Move a read-only property on, for the observe timer. */
+  const advance = (name: string) => {
+    const state = values.get(name);
+    if (!state) return;
+    state.value = driftValue(properties[name], state.value);
+    state.changedAt = Date.now();
+  };
+
+  const notify = (name: string) => {
+    const output = currentValue(name);
+    for (const listener of Array.from(observers.get(name) ?? [])) {
+      try {
+        listener(toOutput(output, properties[name]));
+      } catch {}
+    }
+  };
+
+  const unobserve = (name: string, listener: Listener) => {
+    const listeners = observers.get(name);
+    if (!listeners?.delete(listener) || listeners.size) return;
+    observers.delete(name);
+    clearInterval(changeTimers.get(name));
+    changeTimers.delete(name);
+  };
+
+  const readProperty = async (name: string) => {
+    await simulateRequest('readproperty', name);
+    return toOutput(currentValue(name), getProperty(name));
+  };
+
+  const readMultipleProperties = async (names: string[]) => {
+    await simulateRequest('readmultipleproperties');
+    return new Map(names.map(name => [name, toOutput(currentValue(name), getProperty(name))]));
+  };
+
+  return {
+    getThingDescription: () => td,
+    readProperty,
+    readMultipleProperties,
+    readAllProperties: () => readMultipleProperties(Object.keys(properties).filter(name => !properties[name].writeOnly)),
+
+    writeProperty: async (name: string, input: any) => {
+      const schema = getProperty(name);
+      await simulateRequest('writeproperty', name);
+      if (schema.readOnly) throw requestError(400, `400 Bad Request: property "${name}" is read-only`);
+      const value = await fromInput(input);
+      const issues = validateAgainstSchema(value, schema);
+      if (issues.length) throw requestError(400, `400 Bad Request: ${formatSchemaIssues(issues)}`);
+      values.set(name, { value: copy(value), changedAt: Date.now() });
+      notify(name);
+    },
+
+    observeProperty: async (name: string, listener: Listener) => {
+      const schema = getProperty(name);
+      await simulateRequest('observeproperty', name);
+      if (!observers.has(name)) observers.set(name, new Set());
+      observers.get(name).add(listener);
+      if (schema.readOnly && !changeTimers.has(name)) {
+        changeTimers.set(
+          name,
+          setInterval(() => {
+            advance(name);
+            notify(name);
+          }, changeIntervalMs),
+        );
+      }
+      return { unsubscribe: async () => unobserve(name, listener) };
+    },
+
+    invokeAction: async (name: string, input?: any) => {
+      const action = actions[name];
+      if (!action) throw requestError(404, `404 Not Found: no action "${name}" in TD`);
+      await simulateRequest('invokeaction', name);
+      const value = await fromInput(input);
+      const issues = action.input ? validateAgainstSchema(value, action.input) : [];
+      if (issues.length) throw requestError(400, `400 Bad Request: ${formatSchemaIssues(issues)}`);
+      return action.output ? toOutput(generateSchemaValue(action.output), action.output) : undefined;
+    },
+
+    subscribeEvent: async (name: string, listener: Listener) => {
+      const event = events[name];
+      if (!event) throw requestError(404, `404 Not Found: no event "${name}" in TD`);
+      await simulateRequest('subscribeevent', name);
+      const timer = setInterval(() => {
+        try {
+          listener(toOutput(generateSchemaValue(event.data) ?? { event: name, timestamp: new Date().toISOString() }, event.data));
+        } catch {}
+      }, eventIntervalMs);
+      return { unsubscribe: async () => clearInterval(timer) };
+    },
+  };
+}
@@ -0,0 +1,173 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Registry of measurement units found in TD DataSchemas (`unit`), with conversion between unit systems.
+ *
+ */
+
+/** Unit systems a page can prefer. */
+export type UnitSystem = 'metric' | 'imperial';
+
+/** A known unit; values convert linearly to the base unit of its quantity: `base = value * factor + offset`. */
+export type UnitDefinition = {
+  /** Symbol shown next to values */
+  symbol: string;
+  /** Measured quantity, e.g. `temperature`; only units of the same quantity convert */
+  quantity: string;
+  /** System the unit belongs to; undefined for units used in both */
+  system?: UnitSystem;
+  factor: number;
+  offset?: number;
+  /** Symbol of the unit used instead in the other system */
+  counterpart?: string;
+  /** Other names: QUDT and OM local names, UCUM codes, spelled-out names */
+  aliases?: string[];
+};
+
+/** Built-in units; base units have factor 1 */
+const BUILT_IN_UNITS: UnitDefinition[] = [
+  // Temperature, base kelvin
+  { symbol: '°C', quantity: 'temperature', system: 'metric', factor: 1, offset: 273.15, counterpart: '°F', aliases: ['DEG_C', 'degreeCelsius', 'Cel', 'celsius', 'degC'] },
+  {
+    symbol: '°F',
+    quantity: 'temperature',
+    system: 'imperial',
+    factor: 5 / 9,
+    offset: 273.15 - (32 * 5) / 9,
+    counterpart: '°C',
+    aliases: ['DEG_F', 'degreeFahrenheit', '[degF]', 'fahrenheit', 'degF'],
+  },
+  { symbol: 'K', quantity: 'temperature', system: 'metric', factor: 1, counterpart: '°F', aliases: ['kelvin'] },
+  // Length, base metre
+  { symbol: 'm', quantity: 'length', system: 'metric', factor: 1, counterpart: 'ft', aliases: ['M', 'metre', 'meter'] },
+  { symbol: 'cm', quantity: 'length', system: 'metric', factor: 0.01, counterpart: 'in', aliases: ['CentiM', 'centimetre', 'centimeter'] },
+  { symbol: 'mm', quantity: 'length', system: 'metric', factor: 0.001, counterpart: 'in', aliases: ['MilliM', 'millimetre', 'millimeter'] },
+  { symbol: 'km', quantity: 'length', system: 'metric', factor: 1000, counterpart: 'mi', aliases: ['KiloM', 'kilometre', 'kilometer'] },
+  { symbol: 'in', quantity: 'length', system: 'imperial', factor: 0.0254, counterpart: 'cm', aliases: ['IN', 'inch', '[in_i]'] },
+  { symbol: 'ft', quantity: 'length', system: 'imperial', factor: 0.3048, counterpart: 'm', aliases: ['FT', 'foot', '[ft_i]'] },
+  { symbol: 'mi', quantity: 'length', system: 'imperial', factor: 1609.344, counterpart: 'km', aliases: ['MI', 'mile', '[mi_i]'] },
+  // Mass, base kilogram
+  { symbol: 'kg', quantity: 'mass', system: 'metric', factor: 1, counterpart: 'lb', aliases: ['KiloGM', 'kilogram'] },
+  { symbol: 'g', quantity: 'mass', system: 'metric', factor: 0.001, counterpart: 'oz', aliases: ['GM', 'gram'] },
+  { symbol: 'lb', quantity: 'mass', system: 'imperial', factor: 0.45359237, counterpart: 'kg', aliases: ['LB', 'pound', 'poundAvoirdupois', '[lb_av]'] },
+  { symbol: 'oz', quantity: 'mass', system: 'imperial', factor: 0.028349523125, counterpart: 'g', aliases: ['OZ', 'ounce', 'ounceAvoirdupois', '[oz_av]'] },
+  // Volume, base litre
+  { symbol: 'L', quantity: 'volume', system: 'metric', factor: 1, counterpart: 'gal', aliases: ['L', 'litre', 'liter', 'l'] },
+  { symbol: 'mL', quantity: 'volume', system: 'metric', factor: 0.001, counterpart: 'fl oz', aliases: ['MilliL', 'millilitre', 'milliliter', 'ml'] },
+  { symbol: 'gal', quantity: 'volume', system: 'imperial', factor: 3.785411784, counterpart: 'L', aliases: ['GAL_US', 'gallon-US', '[gal_us]', 'gallon'] },
+  { symbol: 'fl oz', quantity: 'volume', system: 'imperial', factor: 0.0295735295625, counterpart: 'mL', aliases: ['OZ_VOL_US', 'fluidOunce-US', '[foz_us]'] },
+  // Speed, base metre per second
+  { symbol: 'm/s', quantity: 'speed', system: 'metric', factor: 1, counterpart: 'mph', aliases: ['M-PER-SEC', 'metrePerSecond-Time', 'metrePerSecond'] },
+  { symbol: 'km/h', quantity: 'speed', system: 'metric', factor: 1 / 3.6, counterpart: 'mph', aliases: ['KiloM-PER-HR', 'kilometrePerHour', 'km/h'] },
+  { symbol: 'mph', quantity: 'speed', system: 'imperial', factor: 0.44704, counterpart: 'km/h', aliases: ['MI-PER-HR', 'milePerHour', '[mi_i]/h'] },
+  // Pressure, base pascal
+  { symbol: 'Pa', quantity: 'pressure', system: 'metric', factor: 1, counterpart: 'psi', aliases: ['PA', 'pascal'] },
+  { symbol: 'hPa', quantity: 'pressure', system: 'metric', factor: 100, counterpart: 'inHg', aliases: ['HectoPA', 'hectopascal'] },
+  { symbol: 'kPa', quantity: 'pressure', system: 'metric', factor: 1000, counterpart: 'psi', aliases: ['KiloPA', 'kilopascal'] },
+  { symbol: 'bar', quantity: 'pressure', system: 'metric', factor: 100000, counterpart: 'psi', aliases: ['BAR'] },
+  { symbol: 'psi', quantity: 'pressure', system: 'imperial', factor: 6894.757293168, counterpart: 'kPa', aliases: ['PSI', 'poundForcePerSquareInch', '[psi]'] },
+  { symbol: 'inHg', quantity: 'pressure', system: 'imperial', factor: 3386.389, counterpart: 'hPa', aliases: ['IN_HG', 'inchOfMercury', "[in_i'Hg]"] },
+  // Units shared by both systems, listed for their symbols
+  { symbol: '%', quantity: 'ratio', factor: 0.01, aliases: ['PERCENT', 'percent'] },
+  { symbol: 'ppm', quantity: 'ratio', factor: 1e-6, aliases: ['PPM', 'partsPerMillion', '[ppm]'] },
+  { symbol: 'lx', quantity: 'illuminance', factor: 1, aliases: ['LUX', 'lux'] },
+  { symbol: 'W', quantity: 'power', factor: 1, aliases: ['W', 'watt'] },
+  { symbol: 'kW', quantity: 'power', factor: 1000, aliases: ['KiloW', 'kilowatt'] },
+  { symbol: 'Wh', quantity: 'energy', factor: 3600, aliases: ['W-HR', 'wattHour'] },
+  { symbol: 'kWh', quantity: 'energy', factor: 3600000, aliases: ['KiloW-HR', 'kilowattHour'] },
+  { symbol: 'V', quantity: 'voltage', factor: 1, aliases: ['V', 'volt'] },
+  { symbol: 'A', quantity: 'current', factor: 1, aliases: ['A', 'ampere'] },
+  { symbol: 's', quantity: 'time', factor: 1, aliases: ['SEC', 'second', 'second-Time'] },
+  { symbol: 'min', quantity: 'time', factor: 60, aliases: ['MIN', 'minute', 'minute-Time'] },
+  { symbol: 'h', quantity: 'time', factor: 3600, aliases: ['HR', 'hour'] },
+  { symbol: 'dB', quantity: 'level', factor: 1, aliases: ['DeciB', 'decibel'] },
+];
+
+/** Units by lower-cased symbol and alias */
+const units = new Map<string, UnitDefinition>();
+
+let unitSystem: UnitSystem | undefined;
+const unitSystemListeners = new Set<(system: UnitSystem | undefined) => void>();
+
+/** Lookup key of a unit reference: the local name of an IRI or CURIE, lower-cased. */
+function toUnitKey(unit: string): string {
+  const trimmed = unit.trim();
+  const local = /^[a-z][\w+.-]*:/i.test(trimmed) ? trimmed.split(/[/#:]/).pop() : trimmed;
+  return (local || trimmed).toLowerCase();
+}
+
+/** Add a unit, or replace the one with the same symbol; its symbol and aliases become resolvable. */
+export function registerUnit(definition: UnitDefinition): void {
+  for (const name of [definition.symbol, ...(definition.aliases ?? [])]) units.set(toUnitKey(name), definition);
+}
+
+BUILT_IN_UNITS.forEach(registerUnit);
+
+/**
+ * Find a unit by symbol (`°C`), QUDT or OM IRI (`http://qudt.org/vocab/unit/DEG_C`, `om:degreeCelsius`),
+ * UCUM code (`Cel`) or name.
+ */
+export function resolveUnit(unit?: string): UnitDefinition | undefined {
+  if (!unit || typeof unit !== 'string') return undefined;
+  return units.get(unit.trim().toLowerCase()) ?? units.get(toUnitKey(unit));
+}
+
+/** Symbol to show for a unit reference; unknown IRIs show their local name. */
+export function formatUnit(unit?: string): string | undefined {
+  if (!unit) return undefined;
+  return resolveUnit(unit)?.symbol ?? (/^[a-z][\w+.-]*:/i.test(unit) ? unit.split(/[/#:]/).pop() || unit : unit);
+}
+
+/**
+ * Convert a number between two units of the same quantity.
+ * @throws When a unit is unknown or the units measure different quantities
+ */
+export function convertUnit(value: number, from: string, to: string): number {
+  const source = resolveUnit(from);
+  const target = resolveUnit(to);
+  if (!source) throw new Error(`Unknown unit "${from}"`);
+  if (!target) throw new Error(`Unknown unit "${to}"`);
+  if (source.quantity !== target.quantity) throw new Error(`Cannot convert ${source.symbol} (${source.quantity}) to ${target.symbol} (${target.quantity})`);
+  if (source === target) return value;
+  const base = value * source.factor + (source.offset ?? 0);
+  return Math.round(((base - (target.offset ?? 0)) / target.factor) * 1e9) / 1e9;
+}
+
+/** The unit to show a value of `unit` in for a unit system; undefined when no conversion is needed. */
+export function getPreferredUnit(unit?: string, system: UnitSystem | undefined = unitSystem): UnitDefinition | undefined {
+  const definition = resolveUnit(unit);
+  if (!definition || !system || !definition.system || definition.system === system) return undefined;
+  const counterpart = resolveUnit(definition.counterpart);
+  return counterpart && counterpart.quantity === definition.quantity ? counterpart : undefined;
+}
+
+/** Check whether values of a unit are shown in another unit under some unit system. */
+export function hasUnitCounterpart(unit?: string): boolean {
+  const definition = resolveUnit(unit);
+  return !!definition?.system && !!getPreferredUnit(unit, definition.system === 'metric' ? 'imperial' : 'metric');
+}
+
+/** Get the unit system preferred by the page, if any. */
+export function getUnitSystem(): UnitSystem | undefined {
+  return unitSystem;
+}
+
+/** Prefer a unit system for all bound values (undefined shows device units); elements without their own unit or unit system are converted anew. */
+export function setUnitSystem(system: UnitSystem | undefined): void {
+  if (system === unitSystem) return;
+  unitSystem = system;
+  for (const listener of Array.from(unitSystemListeners)) {
+    try {
+      listener(system);
+    } catch {}
+  }
+}
+
+/**
+ * Get notified when the preferred unit system changes.
+ * @returns Function that removes the listener
+ */
+export function subscribeUnitSystem(listener: (system: UnitSystem | undefined) => void): () => void {
+  unitSystemListeners.add(listener);
+  return () => unitSystemListeners.delete(listener);
+}
@@ -0,0 +1,216 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { convertUnit, formatUnit, resolveUnit } from './unit-registry';
+
+/**
+ * Value transforms between device values (as in the TD) and the display values components work with.
+ *
+ */
+
+/** A conversion in both directions: `read` from device to display value, `write` back. */
+export type ValueTransform = {
+  read?: (value: any) => any;
+  write?: (value: any) => any;
+};
+
+/**
+ * One step of a transform pipeline:
+ * - `{ scale: k }` multiplies numbers by k, `{ offset: d }` adds d
+ * - `{ map: { code: label } }` replaces device codes by labels
+ * - `{ invert: true }` (or `'invert'`) negates booleans
+ * - `{ round: n }` rounds numbers to n decimals for display
+ * - `{ unit: '°C' }` changes the unit shown, without converting
+ * - `{ convert: '°F' }` converts numbers from the current unit (the DataSchema `unit` at first) to another one
+ * - `{ custom: name }` or the bare name runs a transform added with `registerTransform()`
+ * - an object with `read` / `write` functions runs them directly
+ */
+export type TransformStep =
+  | { scale: number }
+  | { offset: number }
+  | { map: Record<string, any> }
+  | { invert: boolean }
+  | { round: number }
+  | { unit: string }
+  | { convert: string }
+  | { custom: string }
+  | ValueTransform
+  | string;
+
+/** A transform as accepted by `connectProperty({ transform })`: a step list or a single `{ read, write }` pair. */
+export type TransformSpec = ValueTransform | TransformStep[];
+
+/** A transform ready to apply; `unit` is set when a step changes the displayed unit. */
+export type CompiledTransform = { read: (value: any) => any; write: (value: any) => any; unit?: string };
+
+/** Transforms added with `registerTransform()` */
+const customTransforms = new Map<string, ValueTransform>();
+
+/** Make a transform usable by name in step lists and `td-transform`. */
+export function registerTransform(name: string, transform: ValueTransform): void {
+  customTransforms.set(name, transform);
+}
+
+/** Turn a map key back into the device value it stands for. */
+function parseMapKey(key: string): any {
+  if (key === 'true' || key === 'false') return key === 'true';
+  return /^-?\d+(\.\d+)?$/.test(key) ? Number(key) : key;
+}
+
+/** Remove floating point noise from converted numbers. */
+function tidy(value: number): number {
+  return Math.round(value * 1e9) / 1e9;
+}
+
+/** Build the two directions of a single step. */
+function compileStep(step: TransformStep): CompiledTransform {
+  if (typeof step === 'string') return compileStep(step === 'invert' ? { invert: true } : { custom: step });
+  const numeric = (fn: (value: number) => number) => (value: any) => (typeof value === 'number' ? tidy(fn(value)) : value);
+
+  if ('scale' in step) {
+    if (!step.scale) throw new Error('transform scale must be a non-zero number');
+    return { read: numeric(value => value * step.scale), write: numeric(value => value / step.scale) };
+  }
+  if ('offset' in step) return { read: numeric(value => value + step.offset), write: numeric(value => value - step.offset) };
+  if ('map' in step) {
+    const entries = Object.entries(step.map ?? {});
+    return {
+      read: value => (Object.prototype.hasOwnProperty.call(step.map ?? {}, String(value)) ? step.map[String(value)] : value),
+      write: value => {
+        const entry = entries.find(([, label]) => label === value);
+        return entry ? parseMapKey(entry[0]) : value;
+      },
+    };
+  }
+  if ('invert' in step) {
+    const invert = (value: any) => (step.invert && typeof value === 'boolean' ? !value : value);
+    return { read: invert, write: invert };
+  }
+  if ('round' in step) {
+    const factor = Math.pow(10, step.round ?? 0);
+    return { read: numeric(value => Math.round(value * factor) / factor), write: value => value };
+  }
+  if ('unit' in step) return { read: value => value, write: value => value, unit: step.unit };
+  if ('custom' in step) {
+    const custom = customTransforms.get(step.custom);
+    if (!custom) throw new Error(`Unknown transform "${step.custom}"; add it with registerTransform()`);
+    return compileStep(custom);
+  }
+  if ('read' in step || 'write' in step) {
+    return { read: step.read ?? (value => value), write: step.write ?? (value => value) };
+  }
+  throw new Error(`Unknown transform step ${JSON.stringify(step)}`);
+}
+
+/** Build a unit conversion step from the current unit. */
+function compileConversion(from: string | undefined, to: string): CompiledTransform {
+  const target = resolveUnit(to);
+  if (!target) throw new Error(`Unknown unit "${to}"`);
+  if (!resolveUnit(from)) throw new Error(`Cannot convert to ${target.symbol}: the value has no known unit`);
+  // Validates that both units measure the same quantity
+  convertUnit(0, from, to);
+  return {
+    read: value => (typeof value === 'number' ? convertUnit(value, from, to) : value),
+    write: value => (typeof value === 'number' ? convertUnit(value, to, from) : value),
+    unit: target.symbol,
+  };
+}
+
+/** Check whether a spec sets the displayed unit itself. */
+function hasUnitStep(spec: TransformSpec): boolean {
+  return Array.isArray(spec) && spec.some(step => typeof step === 'object' && ('unit' in step || 'convert' in step));
+}
+
+/**
+ * Compile a transform: `read` runs the steps in order, `write` runs their inverses in reverse order.
+ * Writes to integer properties are rounded, so scaled values still match the DataSchema.
+ * `convertTo` converts from the DataSchema unit first, unless the spec sets the unit itself.
+ */
+export function compileTransform(spec?: TransformSpec, schema?: any, convertTo?: string): CompiledTransform | undefined {
+  const list: TransformStep[] = !spec ? [] : Array.isArray(spec) ? [...spec] : [spec];
+  if (convertTo && !(spec && hasUnitStep(spec))) list.unshift({ convert: convertTo });
+  if (!list.length) return undefined;
+
+  let unit: string | undefined = schema?.unit;
+  const steps = list.map(step => {
+    const compiled = typeof step === 'object' && 'convert' in step ? compileConversion(unit, step.convert) : compileStep(step);
+    unit = compiled.unit ?? unit;
+    return compiled;
+  });
+  const toInteger = schema?.type === 'integer';
+  return {
+    read: value => steps.reduce((current, step) => step.read(current), value),
+    write: value => {
+      const device = steps.reduceRight((current, step) => step.write(current), value);
+      return toInteger && typeof device === 'number' ? Math.round(device) : device;
+    },
+    unit: unit !== schema?.unit ? formatUnit(unit) : undefined,
+  };
+}
+
+/**
+ * Express the numeric bounds of a DataSchema in display units, for components taking min/max/step from it.
+ * Non-numeric schemas, and transforms that do not map numbers to numbers, are returned unchanged.
+ */
+export function transformSchema(schema: any, transform?: CompiledTransform): any {
+  if (!schema || !transform) return schema;
+  const next = { ...schema, ...(transform.unit ? { unit: transform.unit } : {}) };
+  if (schema.type !== 'number' && schema.type !== 'integer') return next;
+  try {
+    const low = schema.minimum ?? schema.exclusiveMinimum;
+    const high = schema.maximum ?? schema.exclusiveMaximum;
+    // Exclusive bounds stay exclusive in display units
+    const bounds = [
+      { value: typeof low === 'number' ? transform.read(low) : undefined, exclusive: schema.minimum === undefined },
+      { value: typeof high === 'number' ? transform.read(high) : undefined, exclusive: schema.maximum === undefined },
+    ];
+    if (bounds.every(bound => bound.value === undefined || typeof bound.value === 'number')) {
+      // A negative scale swaps the bounds
+      const [lower, upper] = bounds[0].value !== undefined && bounds[1].value !== undefined && bounds[0].value > bounds[1].value ? [bounds[1], bounds[0]] : bounds;
+      delete next.minimum;
+      delete next.maximum;
+      delete next.exclusiveMinimum;
+      delete next.exclusiveMaximum;
+      if (lower.value !== undefined) next[lower.exclusive ? 'exclusiveMinimum' : 'minimum'] = lower.value;
+      if (upper.value !== undefined) next[upper.exclusive ? 'exclusiveMaximum' : 'maximum'] = upper.value;
+    }
+    if (typeof schema.multipleOf === 'number') {
+      const base = typeof low === 'number' ? low : 0;
+      const step = transform.read(base + schema.multipleOf) - transform.read(base);
+      next.multipleOf = typeof step === 'number' && step !== 0 ? Math.abs(tidy(step)) : undefined;
+      if (next.multipleOf === undefined) delete next.multipleOf;
+    }
+  } catch {
+    return schema;
+  }
+  return next;
+}
+
+/**
+ * Parse a `td-transform` attribute: a JSON step list (or single step), or the shorthand
+ * `offset:-273.15 | round:1 | unit:°C`, where bare names refer to registered transforms.
+ */
+export function parseTransformAttr(value: string): TransformStep[] {
+  const text = value.trim();
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch (err) {
+      throw new Error(`td-transform contains invalid JSON: ${String(err)}`);
+    }
+  }
+  return text
+    .split('|')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const colon = part.indexOf(':');
+      if (colon < 0) return part;
+      const name = part.slice(0, colon).trim();
+      const raw = part.slice(colon + 1).trim();
+      let arg: any = raw;
+      try {
+        arg = JSON.parse(raw);
+      } catch {}
+      return { [name]: arg } as TransformStep;
+    });
+}
@@ -0,0 +1,144 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BackoffOptions, computeBackoffDelay } from './subscription-supervisor';
+
+/**
+ * Holds property writes while a Thing is unreachable and replays them in order once it is back.
+ *
+ */
+
+/** Result of a queued write. */
+export type QueuedWriteOutcome = { status: 'written' } | { status: 'conflict'; current: any } | { status: 'failed'; error: any } | { status: 'discarded' };
+
+/** A property write waiting for its Thing to become reachable. */
+export type QueuedWrite = {
+  propertyName: string;
+  value: any;
+  /** Device value the write was based on; a different current value is a conflict (undefined skips the check) */
+  expected?: any;
+  queuedAt: number;
+  /** Read the current device value */
+  read: () => Promise<any>;
+  /** Send the write */
+  write: () => Promise<any>;
+  /** Whether an error means the Thing is still unreachable, keeping the write queued */
+  isUnreachable: (err: any) => boolean;
+  /** Write even when the device value changed in the meantime */
+  overwriteConflicts?: boolean;
+  backoff?: BackoffOptions;
+  onSettled: (outcome: QueuedWriteOutcome) => void;
+};
+
+/** Queue of one Thing. */
+type WriteQueue = { writes: QueuedWrite[]; replaying: boolean; attempt: number; timer?: ReturnType<typeof setTimeout> };
+
+/** Queues keyed by Thing source */
+const queues = new Map<any, WriteQueue>();
+
+/** Compare device values. */
+function isSameValue(a: any, b: any): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Retry the queue after a backoff delay, in case no other interaction reports the Thing back. */
+function scheduleReplay(key: any, queue: WriteQueue): void {
+  if (queue.timer || !queue.writes.length) return;
+  const delay = computeBackoffDelay(queue.attempt++, queue.writes[0].backoff);
+  queue.timer = setTimeout(() => {
+    queue.timer = undefined;
+    void replayWrites(key);
+  }, delay);
+}
+
+/** Remove an emptied queue. */
+function dropIfEmpty(key: any, queue: WriteQueue): void {
+  if (queue.writes.length || queue.replaying) return;
+  if (queue.timer) clearTimeout(queue.timer);
+  if (queues.get(key) === queue) queues.delete(key);
+}
+
+/** Add a write to the queue of a Thing; it is replayed after the queued writes before it. */
+export function enqueueWrite(key: any, write: QueuedWrite): void {
+  if (!queues.has(key)) queues.set(key, { writes: [], replaying: false, attempt: 0 });
+  const queue = queues.get(key);
+  queue.writes.push(write);
+  scheduleReplay(key, queue);
+}
+
+/** Whether a Thing has writes waiting; later writes must queue behind them to keep the order. */
+export function hasQueuedWrites(key: any): boolean {
+  return !!queues.get(key)?.writes.length;
+}
+
+/** The last value queued for a property, which a following write is based on. */
+export function getLastQueuedValue(key: any, propertyName: string): { value: any } | undefined {
+  const writes = queues.get(key)?.writes ?? [];
+  for (let i = writes.length - 1; i >= 0; i--) {
+    if (writes[i].propertyName === propertyName) return { value: writes[i].value };
+  }
+  return undefined;
+}
+
+/**
+ * Replay the queued writes of a Thing in order. A write whose property changed on the device since
+ * it was queued is reported as a conflict instead of being written, unless `overwriteConflicts` is set.
+ * Replay stops at the first write that finds the Thing still unreachable and is retried later.
+ */
+export async function replayWrites(key: any): Promise<void> {
+  const queue = queues.get(key);
+  if (!queue || queue.replaying) return;
+  queue.replaying = true;
+  if (queue.timer) clearTimeout(queue.timer);
+  queue.timer = undefined;
+
+  try {
+    while (queue.writes.length) {
+      const next = queue.writes[0];
+      try {
+        if (next.expected !== undefined && !next.overwriteConflicts) {
+          const current = await next.read();
+          if (!isSameValue(current, next.expected)) {
+            queue.writes.shift();
+            next.onSettled({ status: 'conflict', current });
+            continue;
+          }
+        }
+        await next.write();
+        queue.writes.shift();
+        queue.attempt = 0;
+        next.onSettled({ status: 'written' });
+      } catch (err) {
+        if (next.isUnreachable(err)) break;
+        queue.writes.shift();
+        next.onSettled({ status: 'failed', error: err });
+      }
+    }
+  } finally {
+    queue.replaying = false;
+  }
+
+  if (queue.writes.length) scheduleReplay(key, queue);
+  else dropIfEmpty(key, queue);
+}
+
+/** A queued write as reported by `getQueuedWrites()`. */
+export type QueuedWriteInfo = { source: any; propertyName: string; value: any; queuedAt: number };
+
+/** List the writes waiting for their Thing, in replay order. */
+export function getQueuedWrites(key?: any): QueuedWriteInfo[] {
+  const entries = key !== undefined ? ([[key, queues.get(key)]] as Array<[any, WriteQueue | undefined]>) : Array.from(queues);
+  return entries.flatMap(([source, queue]) => (queue?.writes ?? []).map(({ propertyName, value, queuedAt }) => ({ source, propertyName, value, queuedAt })));
+}
+
+/** Drop the queued writes of a Thing, or of all Things. */
+export function discardQueuedWrites(key?: any): number {
+  const entries = key !== undefined ? ([[key, queues.get(key)]] as Array<[any, WriteQueue | undefined]>) : Array.from(queues);
+  let count = 0;
+  for (const [source, queue] of entries) {
+    if (!queue) continue;
+    const writes = queue.writes.splice(0);
+    count += writes.length;
+    writes.forEach(write => write.onSettled({ status: 'discarded' }));
+    dropIfEmpty(source, queue);
+  }
+  return count;
+}
@@ -0,0 +1,107 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Scheduling of property writes from one element: debounce or throttle rapid changes, keep a single write
+ * in flight, and let the last value win.
+ *
+ */
+
+/** How rapid writes of one element are combined. */
+export type WriteTiming = {
+  /** Send a value only after no new one came for this long */
+  debounceMs?: number;
+  /** Send at most one value per interval, the latest one */
+  throttleMs?: number;
+};
+
+/** Outcome of a scheduled write; `superseded` when a newer value replaced it before it was sent or while it was in flight. */
+export type ScheduledWrite<R = any> = { status: 'written'; result: R } | { status: 'superseded' };
+
+/** Write scheduler of one binding. */
+export type WriteScheduler<R = any> = {
+  /** Schedule a value; resolves once it was written or superseded, rejects when it was the latest and failed */
+  schedule(value: any): Promise<ScheduledWrite<R>>;
+  /** Whether a write is waiting or in flight */
+  isBusy(): boolean;
+  /** Whether a value read at `readStartedAt` predates the latest write, so showing it would undo that write */
+  isStale(readStartedAt: number): boolean;
+  /** Send the waiting write without further delay, e.g. before the binding is torn down */
+  flush(): void;
+};
+
+/** A value waiting to be sent */
+type PendingWrite<R> = { value: any; resolve: (outcome: ScheduledWrite<R>) => void; reject: (err: any) => void };
+
+/**
+ * Create the write scheduler of a binding. Writes are sent one at a time, in order; values scheduled while
+ * a write is in flight replace each other, and only the latest is sent next. The response of a write that
+ * was superseded meanwhile is ignored, so a late reply for an old value never reaches the element.
+ * The superseded request itself is not cancelled: WoT clients take no abort signal, so the device still receives it.
+ *
+ * @param send - Sends one value to the device
+ */
+export function createWriteScheduler<R = any>(send: (value: any) => Promise<R>, timing: WriteTiming = {}): WriteScheduler<R> {
+  const debounceMs = timing.debounceMs > 0 ? timing.debounceMs : 0;
+  const throttleMs = timing.throttleMs > 0 ? timing.throttleMs : 0;
+  let waiting: PendingWrite<R> | undefined;
+  let inFlight = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let lastSentAt = 0;
+  let settledAt = 0;
+
+  const startTimer = (delayMs: number) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      if (!inFlight) void sendWaiting();
+    }, delayMs);
+  };
+
+  const sendWaiting = async () => {
+    const pending = waiting;
+    if (!pending) return;
+    waiting = undefined;
+    inFlight = true;
+    lastSentAt = Date.now();
+    let outcome: { ok: true; result: R } | { ok: false; err: any };
+    try {
+      outcome = { ok: true, result: await send(pending.value) };
+    } catch (err) {
+      outcome = { ok: false, err };
+    }
+    inFlight = false;
+    settledAt = Date.now();
+
+    if (waiting) {
+      // A newer value arrived while this one was in flight
+      pending.resolve({ status: 'superseded' });
+      // Its quiet period already passed unless the timer still runs
+      if (!timer) startTimer(throttleMs ? Math.max(0, lastSentAt + throttleMs - Date.now()) : 0);
+      return;
+    }
+    if (outcome.ok === true) pending.resolve({ status: 'written', result: outcome.result });
+    else pending.reject(outcome.err);
+  };
+
+  return {
+    schedule(value) {
+      return new Promise<ScheduledWrite<R>>((resolve, reject) => {
+        waiting?.resolve({ status: 'superseded' });
+        waiting = { value, resolve, reject };
+        if (debounceMs) startTimer(debounceMs);
+        else if (inFlight) return;
+        else if (throttleMs) {
+          if (!timer) startTimer(Math.max(0, lastSentAt + throttleMs - Date.now()));
+        } else void sendWaiting();
+      });
+    },
+    isBusy: () => inFlight || !!waiting,
+    isStale: readStartedAt => inFlight || !!waiting || readStartedAt < settledAt,
+    flush() {
+      clearTimeout(timer);
+      timer = undefined;
+      // An in-flight write sends the waiting one when it settles
+      if (!inFlight) void sendWaiting();
+    },
+  };
+}
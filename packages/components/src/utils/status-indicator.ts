@@ -2,7 +2,18 @@
  * Visual Badges for feedback, It shows operation status in UI components
  */
 
-export type OperationStatus = 'idle' | 'loading' | 'success' | 'error';
+export type OperationStatus = 'idle' | 'loading' | 'success' | 'error' | 'pending';
+
+/**
+ * Result an operation can resolve with to show another status than `success`,
+ * e.g. `pending` for a write queued while the device is offline.
+ */
+export class OperationOutcome {
+  constructor(
+    public readonly status: OperationStatus,
+    public readonly message?: string,
+  ) {}
+}
 
 export class StatusIndicator {
   /** CSS classes for status indicator with fixed position to reserves space */
@@ -13,6 +24,7 @@ export class StatusIndicator {
     if (status === 'loading') return `${base} opacity-100`;
     if (status === 'success') return `${base} opacity-100 rounded-full bg-green-500 text-white`;
     if (status === 'error') return `${base} opacity-100 rounded-full bg-red-500 text-white`;
+    if (status === 'pending') return `${base} opacity-100 rounded-full bg-amber-500 text-white`;
 
     return `${base} opacity-0`;
   }
@@ -42,6 +54,12 @@ export class StatusIndicator {
     }
   }
 
+  /** Apply the status of a completed operation: the one of an `OperationOutcome` it resolved with, else success */
+  static applyResult(target: any, result: any) {
+    if (result instanceof OperationOutcome) this.applyStatus(target, result.status, result.message);
+    else this.applyStatus(target, 'success');
+  }
+
   /** Format timestamp and relative time for last updated */
   static formatTimestamp(date: Date): { full: string; relative: string } {
     const diffMs = Date.now() - date.getTime();
@@ -77,6 +95,10 @@ export class StatusIndicator {
     if (status === 'error') {
       return h('span', { class: classes, title: error || 'Operation failed' }, this.errorSVG(h));
     }
+
+    if (status === 'pending') {
+      return h('span', { class: classes, title: 'Waiting for the device to reconnect' }, this.pendingSVG(h));
+    }
     // Return empty span to reserve space and prevent layout shift
     return h('span', { class: classes, title: '' });
   }
@@ -135,6 +157,23 @@ export class StatusIndicator {
     );
   }
 
+  /** Pending clock SVG */
+  private static pendingSVG(h: any): any {
+    return h(
+      'svg',
+      {
+        'viewBox': '0 0 16 16',
+        'class': 'w-3 h-3',
+        'fill': 'none',
+        'stroke': 'currentColor',
+        'stroke-width': '2',
+        'stroke-linecap': 'round',
+        'stroke-linejoin': 'round',
+      },
+      [h('circle', { cx: '8', cy: '8', r: '6' }), h('path', { d: 'M8 5v3l2 1.5' })],
+    );
+  }
+
   /** Loading spinner SVG */
   private static loadingSVG(): string {
     return `<svg class="w-4 h-4 text-blue-500" viewBox="0 0 24 24" style="animation: spin 1s linear infinite;">
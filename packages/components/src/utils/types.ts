@@ -1,3 +1,5 @@
+import type { OperationStatus } from './status-indicator';
+
 /**
  * Standard message format for all UI components. For consistent data structure across all components.
  */
@@ -17,3 +19,51 @@ export interface UiMsg<T = any> {
   /** Additional metadata if needed */
   meta?: Record<string, any>;
 }
+
+/** Operations handed to a property component by `setValue()`. */
+export interface PropertyOperations<T = any> {
+  /** Writes a value the user entered to the device */
+  writeOperation?: (value: T) => Promise<any>;
+  /** Reads the value from the device */
+  readOperation?: () => Promise<any>;
+}
+
+/**
+ * Contract of components that can be bound to a WoT property by `connectProperty()` and `connectAll()`.
+ * Any custom element implementing it can be bound, e.g. `<my-gauge td-property="temperature">`.
+ * It needs at least one of `setValue` and `setValueSilent`; a display-only element may implement just the latter.
+ */
+export interface WotPropertyBindable<T = any> {
+  /** Shows a device value; when `options.writeOperation` is given it is stored and called on user changes */
+  setValue?(value: T, options?: PropertyOperations<T>): Promise<boolean>;
+  /** Shows a device value without emitting change events (preferred for observe and poll updates) */
+  setValueSilent?(value: T): Promise<void>;
+  /** Current value, used when another binding reads this component (e.g. `td-input-from`) */
+  getValue?(includeMetadata?: boolean): Promise<T | any>;
+  /** Shows the status of an operation */
+  setStatus?(status: OperationStatus, errorMessage?: string): Promise<void>;
+  /** Set to false while the Thing is unreachable */
+  connected?: boolean;
+}
+
+/** Contract of components that can be bound to a WoT action by `connectAction()` and `connectAll()`. */
+export interface WotActionBindable {
+  /** Stores the function invoking the action; resolves with the action output */
+  setAction(actionFn?: (input?: any) => Promise<any>): Promise<boolean>;
+  /** Shows the status of an operation */
+  setStatus?(status: OperationStatus, errorMessage?: string): Promise<void>;
+}
+
+/** Contract of components that can be bound to a WoT event by `connectEvent()` and `connectAll()`. */
+export interface WotEventBindable<T = any> {
+  /** Starts receiving events; the connection layer subscribes when it is called */
+  startListening(): Promise<void>;
+  /** Stops receiving events; without it the subscription lasts until the binding is torn down */
+  stopListening?(): Promise<void>;
+  /** Shows one event occurrence */
+  addEvent(eventData: T, eventId?: string): Promise<void>;
+  /** Whether the component is listening, so a re-bound element resumes its subscription */
+  isListening?(): Promise<boolean>;
+  /** Shows the status of an operation */
+  setStatus?(status: OperationStatus, errorMessage?: string): Promise<void>;
+}